@@ -1,21 +1,185 @@
-import { Command } from "commander"
-import { createPublicClient, createWalletClient, http, formatEther, parseEther, parseGwei } from "viem"
-import { privateKeyToAccount, generatePrivateKey } from "viem/accounts"
+import { Command, Option } from "commander"
+import {
+    createPublicClient,
+    createWalletClient,
+    createTransport,
+    http,
+    formatEther,
+    formatGwei,
+    formatUnits,
+    parseEther,
+    parseGwei,
+    parseUnits,
+    getAddress,
+    BaseError,
+    ContractFunctionExecutionError,
+    ContractFunctionRevertedError,
+    ExecutionRevertedError,
+    HttpRequestError,
+    InvalidAddressError,
+    InvalidParamsRpcError,
+    RpcError,
+    RpcRequestError,
+    TimeoutError,
+    TransactionNotFoundError,
+    TransactionReceiptNotFoundError,
+    WaitForTransactionReceiptTimeoutError,
+    decodeAbiParameters,
+    decodeEventLog,
+    decodeFunctionData,
+    decodeFunctionResult,
+    encodeAbiParameters,
+    encodeDeployData,
+    encodeFunctionData,
+    getContractError,
+    hexToBigInt,
+    isAddress,
+    maxUint256,
+    keccak256,
+    pad,
+    parseAbi,
+    parseAbiItem,
+    parseAbiParameters,
+    parseTransaction,
+    recoverTransactionAddress,
+    toEventSelector,
+    toEventSignature,
+    toFunctionSelector,
+    toHex,
+    webSocket,
+    toFunctionSignature,
+    type Abi,
+    type AbiEvent,
+    type AbiFunction,
+    type AbiParameter,
+    type Address,
+    type EIP1193RequestFn,
+    type Hex,
+    type TransactionSerializable,
+    type Transport,
+    type TransactionSerialized,
+} from "viem"
+import {
+    privateKeyToAccount,
+    generatePrivateKey,
+    generateMnemonic,
+    mnemonicToAccount,
+    english,
+    type PrivateKeyAccount,
+} from "viem/accounts"
+import { eth as web3Eth } from "web3"
+import * as crypto from "crypto"
 import * as fs from "fs"
 import * as os from "os"
 import * as path from "path"
+import * as readline from "readline"
 import Table from "cli-table3"
+import YAML from "yaml"
+import * as dotenv from "dotenv"
 import pc from 'picocolors'  // Replace chalk import
 
 const CONFIG_DIR = path.join(os.homedir(), ".shardeum-cli")
 const CONFIG_PATH = path.join(CONFIG_DIR, "config")
+const KEYSTORE_DIR = path.join(CONFIG_DIR, "keystore")
+const HD_WALLET_DIR = path.join(CONFIG_DIR, "hd")
+const CACHE_DIR = path.join(CONFIG_DIR, "cache")
+const PROJECT_CONFIG_FILE = ".shardeum-cli.json"
+const PASSPHRASE_ENV = "SHARDEUM_PASSPHRASE"
+const RPC_URL_ENV = "SHARDEUM_RPC_URL"
+const PRIVATE_KEY_ENV = "SHARDEUM_PRIVATE_KEY"
+
+// Variables in ./.env only fill in what the environment doesn't already set
+const PRESET_ENV = new Set(Object.keys(process.env))
+dotenv.config()
+
+// Exit codes let scripts tell failure kinds apart
+const EXIT_CODES = {
+    error: 1,
+    validation: 2,
+    rpc: 3,
+    reverted: 4,
+    regression: 5,
+} as const
+
+class CliError extends Error {
+    constructor(message: string, readonly exitCode: number = EXIT_CODES.error) {
+        super(message)
+        this.name = new.target.name
+    }
+}
+
+class ValidationError extends CliError {
+    constructor(message: string) {
+        super(message, EXIT_CODES.validation)
+    }
+}
+
+const OUTPUT_FORMATS = ["table", "json", "yaml", "csv"] as const
+type OutputFormat = typeof OUTPUT_FORMATS[number]
+
+const getOutputOptions = (): { format: OutputFormat; quiet: boolean } => {
+    const options = program.opts()
+    return { format: options.output, quiet: Boolean(options.quiet) }
+}
 
 // Utility functions
 const truncateString = (str: string, maxLength: number = 122): string => {
     return str.length > (maxLength - 2) ? `${str.substring(0, maxLength)}..` : str
 }
 
-const formatOutput = (data: any): void => {
+// BigInts become decimal strings so no precision is lost on the way to JSON consumers
+const toPlain = (value: any): any =>
+    value === undefined ? null : JSON.parse(JSON.stringify(value, (_, v) => typeof v === "bigint" ? v.toString() : v))
+
+const plainText = (value: any): string => {
+    const plain = toPlain(value)
+    if (plain === null) return ""
+    return typeof plain === "object" ? JSON.stringify(plain) : String(plain)
+}
+
+const csvField = (value: any): string => {
+    const text = plainText(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const printRecords = (records: Record<string, any>[], format: Exclude<OutputFormat, "table">): void => {
+    if (format === "json") {
+        console.log(JSON.stringify(toPlain(records), null, 2))
+    } else if (format === "yaml") {
+        process.stdout.write(YAML.stringify(toPlain(records)))
+    } else {
+        const columns = [...new Set(records.flatMap((record) => Object.keys(record)))]
+        console.log(columns.map(csvField).join(","))
+        records.forEach((record) => console.log(columns.map((column) => csvField(record[column])).join(",")))
+    }
+}
+
+// Quiet mode prints only `primaryKey` (or the sole field) so the value can be captured in shell scripts
+const formatOutput = (data: any, primaryKey?: string): void => {
+    const { format, quiet } = getOutputOptions()
+    const isRecord = typeof data === "object" && data !== null
+
+    if (quiet) {
+        if (!isRecord) {
+            console.log(plainText(data))
+        } else if (primaryKey !== undefined && primaryKey in data) {
+            console.log(plainText(data[primaryKey]))
+        } else {
+            Object.values(data).forEach((value) => console.log(plainText(value)))
+        }
+        return
+    }
+
+    if (format === "json" || format === "yaml") {
+        const plain = toPlain(data)
+        console.log(format === "json" ? JSON.stringify(plain, null, 2) : YAML.stringify(plain).trimEnd())
+        return
+    }
+    if (format === "csv") {
+        printRecords([isRecord ? data : { result: data }], format)
+        return
+    }
+
     const table = new Table({
         head: ["Property", "Value"],
     })
@@ -32,7 +196,7 @@ const formatOutput = (data: any): void => {
         return JSON.stringify(value)
     }
 
-    if (typeof data === "object") {
+    if (isRecord) {
         Object.entries(data).forEach(([key, value]) => {
             table.push([key, formatValue(value)])
         })
@@ -43,393 +207,4777 @@ const formatOutput = (data: any): void => {
     console.log(table.toString())
 }
 
+// Lists of records: one table row per record, or an array in the machine-readable formats
+const formatList = (records: Record<string, any>[], head: string[], primaryKey?: string): void => {
+    const { format, quiet } = getOutputOptions()
+    if (quiet) {
+        records.forEach((record) => console.log(plainText(primaryKey ? record[primaryKey] : record)))
+        return
+    }
+    if (format !== "table") {
+        printRecords(records, format)
+        return
+    }
+    const table = new Table({ head })
+    records.forEach((record) => table.push(Object.values(record).map((value) => plainText(value))))
+    console.log(table.toString())
+}
+
+// For commands that keep running: each record is printed as it arrives, JSON as one object per line
+const createRecordStream = (head: string[], primaryKey?: string): ((record: Record<string, any>) => void) => {
+    const { format, quiet } = getOutputOptions()
+    let widths: number[] = []
+    let started = false
+    return (record) => {
+        if (quiet) {
+            console.log(plainText(primaryKey ? record[primaryKey] : record))
+        } else if (format === "json") {
+            console.log(JSON.stringify(toPlain(record)))
+        } else if (format === "yaml") {
+            process.stdout.write(`---\n${YAML.stringify(toPlain(record))}`)
+        } else if (format === "csv") {
+            if (!started) console.log(Object.keys(record).map(csvField).join(","))
+            console.log(Object.values(record).map(csvField).join(","))
+        } else {
+            // Column widths are fixed by the first record; later ones may run wider
+            const values = Object.values(record).map((value) => plainText(value))
+            if (!started) {
+                widths = head.map((title, i) => Math.max(title.length, (values[i] ?? "").length))
+                console.log(pc.bold(head.map((title, i) => title.padEnd(widths[i])).join("  ")))
+            }
+            console.log(values.map((value, i) => value.padEnd(widths[i] ?? 0)).join("  "))
+        }
+        started = true
+    }
+}
+
+const exitCodeFor = (error: any): number => {
+    if (error instanceof CliError) return error.exitCode
+    if (error instanceof BaseError) {
+        if (error.walk((e) => e instanceof ContractFunctionRevertedError || e instanceof ExecutionRevertedError)) {
+            return EXIT_CODES.reverted
+        }
+        if (error.walk((e) => e instanceof InvalidAddressError || e instanceof InvalidParamsRpcError)) {
+            return EXIT_CODES.validation
+        }
+        if (error.walk((e) => e instanceof HttpRequestError || e instanceof RpcRequestError
+            || e instanceof TimeoutError || e instanceof WaitForTransactionReceiptTimeoutError || e instanceof RpcError)) {
+            return EXIT_CODES.rpc
+        }
+    }
+    return EXIT_CODES.error
+}
+
+// Error(string) reason, or the decoded custom error when the ABI knows it
+const describeRevert = (error: any): string | undefined => {
+    const revert = error instanceof BaseError
+        ? error.walk((e) => e instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null
+        : null
+    if (!revert) return undefined
+    if (revert.reason) return revert.reason
+    if (revert.data) return `${revert.data.errorName}(${(revert.data.args ?? []).map(plainText).join(", ")})`
+    return revert.signature ? `unknown error ${revert.signature}` : undefined
+}
+
 const handleError = (error: any): void => {
+    const exitCode = exitCodeFor(error)
+    process.exitCode = exitCode
+
+    const { format, quiet } = getOutputOptions()
+    const detail = {
+        message: error.message || "Unknown error",
+        code: error.code || "N/A",
+        reason: error.reason || describeRevert(error) || "N/A",
+        details: error.details || "N/A",
+        exitCode,
+    }
+
+    if (quiet) {
+        console.error(detail.message)
+        return
+    }
+    if (format === "json") {
+        console.error(JSON.stringify({ error: detail }, null, 2))
+        return
+    }
+    if (format === "yaml") {
+        console.error(YAML.stringify({ error: detail }).trimEnd())
+        return
+    }
+
     const table = new Table({
         head: ["Error Detail", "Value"],
         colWidths: [30, 120],
     })
 
-    table.push(
-        ["Message", error.message || "Unknown error"],
-        ["Code", error.code || "N/A"],
-        ["Reason", error.reason || "N/A"],
-        ["Details", error.details || "N/A"]
-    )
+    table.push(
+        ["Message", detail.message],
+        ["Code", detail.code],
+        ["Reason", detail.reason],
+        ["Details", detail.details]
+    )
+
+    console.error(table.toString())
+}
+
+// Configuration management
+interface NetworkProfile {
+    rpcUrl: string
+    // Further endpoints, used after rpcUrl according to rpcPolicy
+    rpcUrls?: string[]
+    rpcPolicy?: RpcPolicy
+    retries?: number
+    retryDelayMs?: number
+    timeoutMs?: number
+    // Used by watch commands for subscriptions
+    wsUrl?: string
+    // Validator or archiver API serving /account/<id>, for stake:info
+    apiUrl?: string
+    chainId?: number
+    explorerUrl?: string
+    defaultAccount?: string
+}
+
+interface CliConfig {
+    rpcUrl: string
+    // Legacy plaintext key, only read until it is moved into the keystore with wallet:migrate
+    privateKey: string
+    defaultWallet?: string
+    activeProfile?: string
+    profiles?: { [name: string]: NetworkProfile }
+}
+
+interface ResolvedNetwork extends NetworkProfile {
+    name: string
+}
+
+const DEFAULT_CONFIG: CliConfig = { rpcUrl: "https://atomium.shardeum.org", privateKey: "" }
+const CONFIG_KEYS = ["rpcUrl", "privateKey", "defaultWallet", "activeProfile", "profiles"] as const
+const PROFILE_FIELDS = [
+    "rpcUrl", "rpcUrls", "rpcPolicy", "retries", "retryDelayMs", "timeoutMs", "wsUrl", "apiUrl", "chainId", "explorerUrl", "defaultAccount",
+] as const
+
+// One source of configuration values, e.g. the user config file or an environment variable
+interface ConfigLayer {
+    source: string
+    config: Partial<CliConfig>
+}
+
+const envValue = (name: string): string | undefined => process.env[name] || undefined
+
+const envSource = (name: string): string => `${PRESET_ENV.has(name) ? "env" : ".env"} ${name}`
+
+// The nearest .shardeum-cli.json from the working directory up
+const findProjectConfig = (): string | undefined => {
+    for (let dir = process.cwd(); ; dir = path.dirname(dir)) {
+        const file = path.join(dir, PROJECT_CONFIG_FILE)
+        if (fs.existsSync(file)) return file
+        if (path.dirname(dir) === dir) return undefined
+    }
+}
+
+const configProblem = (config: any): string | undefined => {
+    if (typeof config !== "object" || config === null || Array.isArray(config)) return "expected a JSON object"
+    const field = ["rpcUrl", "privateKey", "defaultWallet", "activeProfile"].find((key) => config[key] !== undefined && typeof config[key] !== "string")
+    if (field) return `"${field}" must be a string`
+    if (config.profiles === undefined) return undefined
+    if (typeof config.profiles !== "object" || config.profiles === null || Array.isArray(config.profiles)) return `"profiles" must be an object`
+    const broken = Object.entries<any>(config.profiles).find(([, profile]) => typeof profile?.rpcUrl !== "string")
+    return broken ? `profile "${broken[0]}" has no rpcUrl` : undefined
+}
+
+// A config file that exists but can't be used is an error rather than a silent fallback to the defaults
+const readConfigFile = (file: string): Partial<CliConfig> => {
+    if (!fs.existsSync(file)) return {}
+    let config: any
+    try {
+        config = JSON.parse(fs.readFileSync(file, "utf-8"))
+    } catch (error) {
+        throw new ValidationError(`Config file ${file} is not valid JSON (${(error as Error).message}); fix or remove it`)
+    }
+    const problem = configProblem(config)
+    if (problem) throw new ValidationError(`Config file ${file} is invalid: ${problem}`)
+    return config
+}
+
+// Lowest precedence first: defaults, user config, project config, then environment variables (and .env)
+const loadConfigLayers = (): ConfigLayer[] => {
+    const layers: ConfigLayer[] = [
+        { source: "default", config: DEFAULT_CONFIG },
+        { source: `user ${CONFIG_PATH}`, config: readConfigFile(CONFIG_PATH) },
+    ]
+    const project = findProjectConfig()
+    if (project) layers.push({ source: `project ${project}`, config: readConfigFile(project) })
+    for (const [name, key] of [[RPC_URL_ENV, "rpcUrl"], [PRIVATE_KEY_ENV, "privateKey"]] as const) {
+        const value = envValue(name)
+        if (value) layers.push({ source: envSource(name), config: { [key]: value } })
+    }
+    return layers
+}
+
+// Later layers win key by key; a profile is replaced as a whole by one of the same name
+const mergeConfigLayers = (layers: ConfigLayer[]): CliConfig =>
+    layers.reduce<CliConfig>((merged, { config }) => ({
+        ...merged,
+        ...config,
+        ...((merged.profiles || config.profiles) && { profiles: { ...merged.profiles, ...config.profiles } }),
+    }), { ...DEFAULT_CONFIG })
+
+const loadConfig = (): CliConfig => mergeConfigLayers(loadConfigLayers())
+
+// Just the user config file, for commands that change it
+const loadUserConfig = (): CliConfig => ({ ...DEFAULT_CONFIG, ...readConfigFile(CONFIG_PATH) })
+
+const writeConfigFile = (file: string, config: Partial<CliConfig>): void => {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, JSON.stringify(config, null, 2))
+}
+
+const saveConfig = (config: Partial<CliConfig>): void => {
+    writeConfigFile(CONFIG_PATH, { ...readConfigFile(CONFIG_PATH), ...config })
+}
+
+// CLI Program
+const program = new Command()
+
+// Global options have no short flags so they never clash with a subcommand's own options
+program
+    .option("--network <name>", "Network profile to use (overrides the active profile)")
+    .option("--passphrase-file <path>", `File containing the keystore passphrase (or set ${PASSPHRASE_ENV})`)
+    .addOption(new Option("--output <format>", "Output format").choices(OUTPUT_FORMATS).default("table"))
+    .option("--quiet", "Print only the result value")
+    // Usage errors exit with the validation code; subcommands inherit this when they are created
+    .exitOverride((error) => {
+        process.exit(error.exitCode === 0 ? 0 : EXIT_CODES.validation)
+    })
+
+// Network profiles: --network wins over SHARDEUM_RPC_URL, which wins over the active profile, which wins over the
+// plain rpcUrl
+const resolveNetwork = (config: CliConfig = loadConfig()): ResolvedNetwork => {
+    const name: string | undefined = program.opts().network ?? (envValue(RPC_URL_ENV) ? undefined : config.activeProfile)
+    if (!name) {
+        return { name: "default", rpcUrl: config.rpcUrl }
+    }
+    const profile = config.profiles?.[name]
+    if (!profile) {
+        throw new ValidationError(`Unknown network profile "${name}". Use config:profile list to see available profiles.`)
+    }
+    return { name, ...profile }
+}
+
+// Falls back to the profile's default account when no address argument is given
+const resolveAccountAddress = (address: string | undefined, network: ResolvedNetwork): Address => {
+    const resolved = address ?? network.defaultAccount
+    if (!resolved) {
+        throw new ValidationError(`No address given and network "${network.name}" has no default account`)
+    }
+    // The default account may name a keystore wallet instead of holding an address
+    if (!address && anyWalletExists(resolved)) {
+        return walletAddress(resolved)
+    }
+    return resolved as Address
+}
+
+// RPC endpoints
+const RPC_POLICIES = ["failover", "round-robin"] as const
+type RpcPolicy = typeof RPC_POLICIES[number]
+const RPC_DEFAULTS = { retries: 3, retryDelayMs: 150, timeoutMs: 10000 }
+
+const rpcEndpoints = (network: NetworkProfile): string[] => [...new Set([network.rpcUrl, ...(network.rpcUrls ?? [])])]
+
+// Only an unreachable or timed-out endpoint moves a request on; JSON-RPC errors such as reverts would repeat anywhere
+const isEndpointFailure = (error: unknown): boolean => error instanceof HttpRequestError || error instanceof TimeoutError
+
+// Each request starts at the first endpoint (failover) or the next one in turn (round-robin) and moves on to the
+// others when an endpoint fails. Retries with exponential backoff apply to the request as a whole.
+const getTransport = (network: ResolvedNetwork): Transport => {
+    const retryCount = network.retries ?? RPC_DEFAULTS.retries
+    const retryDelay = network.retryDelayMs ?? RPC_DEFAULTS.retryDelayMs
+    const timeout = network.timeoutMs ?? RPC_DEFAULTS.timeoutMs
+    const urls = rpcEndpoints(network)
+    if (urls.length === 1) return http(urls[0], { retryCount, retryDelay, timeout })
+
+    const policy = network.rpcPolicy ?? "failover"
+    let next = 0
+    return (params) => {
+        const endpoints = urls.map((url) => http(url, { retryCount: 0, timeout })({ ...params, retryCount: 0 }))
+        return createTransport({
+            key: policy,
+            name: `${policy} over ${urls.length} endpoints`,
+            type: policy,
+            retryCount,
+            retryDelay,
+            timeout,
+            request: (async (args: { method: string; params?: unknown }) => {
+                const start = policy === "round-robin" ? next++ % urls.length : 0
+                let lastError: unknown
+                for (let i = 0; i < endpoints.length; i++) {
+                    try {
+                        return await endpoints[(start + i) % endpoints.length].request(args as Parameters<EIP1193RequestFn>[0])
+                    } catch (error) {
+                        if (!isEndpointFailure(error)) throw error
+                        lastError = error
+                    }
+                }
+                throw lastError
+            }) as EIP1193RequestFn,
+        })
+    }
+}
+
+const getPublicClient = (network: ResolvedNetwork = resolveNetwork()) =>
+    createPublicClient({ transport: getTransport(network) })
+
+// Refuse to sign anything when the node behind the profile is not on the expected chain
+const assertExpectedChain = async (
+    client: ReturnType<typeof createPublicClient>,
+    network: ResolvedNetwork
+): Promise<void> => {
+    if (network.chainId === undefined) return
+    const chainId = await client.getChainId()
+    if (chainId !== network.chainId) {
+        throw new ValidationError(
+            `Chain ID mismatch for network "${network.name}": expected ${network.chainId}, RPC ${network.rpcUrl} reports ${chainId}`
+        )
+    }
+}
+
+// Keystore (Web3 Secret Storage v3) wallets
+interface KeystoreFile {
+    version: number
+    id: string
+    address: string
+    crypto: object
+}
+
+const normalizePrivateKey = (key: string): `0x${string}` => {
+    const hex = key.trim().replace(/^0x/i, "")
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new ValidationError("Invalid private key: expected 32 bytes of hex")
+    }
+    return `0x${hex}`
+}
+
+const keystorePath = (name: string): string => {
+    if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+        throw new ValidationError(`Invalid wallet name "${name}": use letters, digits, ".", "_" or "-"`)
+    }
+    return path.join(KEYSTORE_DIR, `${name}.json`)
+}
+
+const walletExists = (name: string): boolean => /^[A-Za-z0-9_.-]+$/.test(name) && fs.existsSync(keystorePath(name))
+
+const listWallets = (): string[] => {
+    if (!fs.existsSync(KEYSTORE_DIR)) return []
+    return fs.readdirSync(KEYSTORE_DIR)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length))
+        .sort()
+}
+
+const readKeystore = (name: string): KeystoreFile & { address: Address } => {
+    if (!walletExists(name)) {
+        throw new ValidationError(`Wallet "${name}" not found. Use wallet:list to see available wallets.`)
+    }
+    const keystore = parseKeystore(fs.readFileSync(keystorePath(name), "utf-8"))
+    return { ...keystore, address: getAddress(`0x${keystore.address.replace(/^0x/i, "")}`) }
+}
+
+const parseKeystore = (json: string): KeystoreFile => {
+    const keystore = JSON.parse(json)
+    if (keystore?.version !== 3 || !keystore.crypto || !keystore.address) {
+        throw new ValidationError("Not a keystore v3 file")
+    }
+    return keystore
+}
+
+const writeKeystore = (name: string, keystore: KeystoreFile, overwrite = false): void => {
+    const file = keystorePath(name)
+    if (!overwrite && fs.existsSync(file)) {
+        throw new ValidationError(`Wallet "${name}" already exists`)
+    }
+    fs.mkdirSync(KEYSTORE_DIR, { recursive: true, mode: 0o700 })
+    fs.writeFileSync(file, JSON.stringify(keystore, null, 2), { mode: 0o600 })
+}
+
+// Reads a line from the terminal without echoing it
+const promptHidden = (question: string): Promise<string> => new Promise((resolve, reject) => {
+    if (!process.stdin.isTTY) {
+        reject(new Error(`No passphrase available: set ${PASSPHRASE_ENV} or use --passphrase-file`))
+        return
+    }
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr, terminal: true })
+    const output = rl as unknown as { _writeToOutput: (text: string) => void }
+    output._writeToOutput = (text: string) => {
+        if (text.includes(question)) process.stderr.write(text)
+    }
+    rl.question(question, (answer) => {
+        rl.close()
+        process.stderr.write("\n")
+        resolve(answer)
+    })
+})
+
+const readPassphrase = async (prompt: string, confirm = false): Promise<string> => {
+    const file = program.opts().passphraseFile
+    if (file) return fs.readFileSync(file, "utf-8").replace(/\r?\n$/, "")
+    if (process.env[PASSPHRASE_ENV] !== undefined) return process.env[PASSPHRASE_ENV] as string
+    const passphrase = await promptHidden(`${prompt}: `)
+    if (confirm && await promptHidden("Repeat passphrase: ") !== passphrase) {
+        throw new ValidationError("Passphrases do not match")
+    }
+    return passphrase
+}
+
+const encryptPrivateKey = async (privateKey: `0x${string}`): Promise<KeystoreFile> => {
+    const passphrase = await readPassphrase("New keystore passphrase", true)
+    if (!passphrase) {
+        throw new ValidationError("Refusing to create a keystore with an empty passphrase")
+    }
+    return web3Eth.accounts.encrypt(privateKey, passphrase)
+}
+
+const decryptKeystore = async (keystore: KeystoreFile, label: string): Promise<`0x${string}`> => {
+    const passphrase = await readPassphrase(`Passphrase for ${label}`)
+    try {
+        const account = await web3Eth.accounts.decrypt(JSON.stringify(keystore), passphrase)
+        return normalizePrivateKey(account.privateKey)
+    } catch {
+        throw new ValidationError(`Could not unlock ${label}: wrong passphrase or corrupt keystore`)
+    }
+}
+
+const unlockWallet = async (name: string): Promise<PrivateKeyAccount> =>
+    privateKeyToAccount(await decryptKeystore(readKeystore(name), `wallet "${name}"`))
+
+// HD wallets keep a BIP-39 mnemonic, encrypted with scrypt and AES-256-GCM, and derive accounts on m/44'/60'/0'/0/<index>
+const HD_PATH = "m/44'/60'/0'/0"
+const SCRYPT_PARAMS = { n: 32768, r: 8, p: 1 }
+
+interface EncryptedSecret {
+    kdf: "scrypt"
+    kdfparams: { n: number; r: number; p: number; salt: string }
+    cipher: "aes-256-gcm"
+    iv: string
+    tag: string
+    ciphertext: string
+}
+
+interface HdWalletFile {
+    version: 1
+    // Account 0, and every address derived so far, readable without the passphrase
+    address: string
+    accounts: { [index: string]: string }
+    crypto: EncryptedSecret
+}
+
+const scryptKey = (passphrase: string, params: EncryptedSecret["kdfparams"]): Buffer =>
+    crypto.scryptSync(passphrase, Buffer.from(params.salt, "hex"), 32, {
+        N: params.n,
+        r: params.r,
+        p: params.p,
+        maxmem: 256 * params.n * params.r,
+    })
+
+const encryptSecret = (secret: string, passphrase: string): EncryptedSecret => {
+    const kdfparams = { ...SCRYPT_PARAMS, salt: crypto.randomBytes(32).toString("hex") }
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv("aes-256-gcm", scryptKey(passphrase, kdfparams), iv)
+    const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()])
+    return {
+        kdf: "scrypt",
+        kdfparams,
+        cipher: "aes-256-gcm",
+        iv: iv.toString("hex"),
+        tag: cipher.getAuthTag().toString("hex"),
+        ciphertext: ciphertext.toString("hex"),
+    }
+}
+
+const decryptSecret = (secret: EncryptedSecret, passphrase: string): string => {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", scryptKey(passphrase, secret.kdfparams), Buffer.from(secret.iv, "hex"))
+    decipher.setAuthTag(Buffer.from(secret.tag, "hex"))
+    return Buffer.concat([decipher.update(Buffer.from(secret.ciphertext, "hex")), decipher.final()]).toString("utf8")
+}
+
+const hdWalletPath = (name: string): string => path.join(HD_WALLET_DIR, path.basename(keystorePath(name)))
+
+const hdWalletExists = (name: string): boolean => /^[A-Za-z0-9_.-]+$/.test(name) && fs.existsSync(hdWalletPath(name))
+
+const listHdWallets = (): string[] => {
+    if (!fs.existsSync(HD_WALLET_DIR)) return []
+    return fs.readdirSync(HD_WALLET_DIR)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length))
+        .sort()
+}
+
+const readHdWallet = (name: string): HdWalletFile => {
+    if (!hdWalletExists(name)) {
+        throw new ValidationError(`HD wallet "${name}" not found. Use wallet:list to see available wallets.`)
+    }
+    const wallet = JSON.parse(fs.readFileSync(hdWalletPath(name), "utf-8"))
+    if (wallet?.version !== 1 || !wallet.crypto || !wallet.address) {
+        throw new ValidationError(`${hdWalletPath(name)} is not an HD wallet file`)
+    }
+    return wallet
+}
+
+const writeHdWallet = (name: string, wallet: HdWalletFile, overwrite = false): void => {
+    const file = hdWalletPath(name)
+    if (!overwrite && (fs.existsSync(file) || walletExists(name))) {
+        throw new ValidationError(`Wallet "${name}" already exists`)
+    }
+    fs.mkdirSync(HD_WALLET_DIR, { recursive: true, mode: 0o700 })
+    fs.writeFileSync(file, JSON.stringify(wallet, null, 2), { mode: 0o600 })
+}
+
+const deriveAccount = (mnemonic: string, index: number): PrivateKeyAccount =>
+    privateKeyToAccount(toHex(mnemonicToAccount(mnemonic, { addressIndex: index }).getHdKey().privateKey as Uint8Array))
+
+const createHdWallet = async (name: string, words: 12 | 24 = 12) => {
+    if (walletExists(name) || hdWalletExists(name)) {
+        throw new ValidationError(`Wallet "${name}" already exists`)
+    }
+    const passphrase = await readPassphrase("New wallet passphrase", true)
+    if (!passphrase) {
+        throw new ValidationError("Refusing to create a wallet with an empty passphrase")
+    }
+    const mnemonic = generateMnemonic(english, words === 24 ? 256 : 128)
+    const { address } = deriveAccount(mnemonic, 0)
+    writeHdWallet(name, { version: 1, address, accounts: { 0: address }, crypto: encryptSecret(mnemonic, passphrase) })
+    return { mnemonic, address }
+}
+
+const unlockMnemonic = async (name: string): Promise<string> => {
+    const wallet = readHdWallet(name)
+    const passphrase = await readPassphrase(`Passphrase for wallet "${name}"`)
+    try {
+        return decryptSecret(wallet.crypto, passphrase)
+    } catch {
+        throw new ValidationError(`Could not unlock wallet "${name}": wrong passphrase or corrupt wallet file`)
+    }
+}
+
+const deriveHdAccounts = async (name: string, indexes: number[]): Promise<PrivateKeyAccount[]> => {
+    const mnemonic = await unlockMnemonic(name)
+    const accounts = indexes.map((index) => deriveAccount(mnemonic, index))
+    const wallet = readHdWallet(name)
+    if (indexes.some((index) => !wallet.accounts[index])) {
+        indexes.forEach((index, i) => { wallet.accounts[index] = accounts[i].address })
+        writeHdWallet(name, wallet, true)
+    }
+    return accounts
+}
+
+// Keystore wallets and HD wallets share one namespace
+const anyWalletExists = (name: string): boolean => walletExists(name) || hdWalletExists(name)
+
+const walletAddress = (name: string): Address =>
+    hdWalletExists(name) ? getAddress(readHdWallet(name).address) : readKeystore(name).address
+
+// A wallet name stands for a keystore wallet or account 0 of an HD wallet
+const unlockNamedWallet = async (name: string): Promise<PrivateKeyAccount> =>
+    hdWalletExists(name) ? (await deriveHdAccounts(name, [0]))[0] : unlockWallet(name)
+
+// --account takes a wallet name, an index into the default HD wallet, or "<HD wallet>:<index>"
+const unlockAccount = async (selector: string, config: CliConfig): Promise<PrivateKeyAccount> => {
+    const match = /^(?:(.+):)?(\d+)$/.exec(selector)
+    if (!match) return unlockNamedWallet(selector)
+    let name = match[1]
+    if (!name) {
+        const hdWallets = listHdWallets()
+        name = config.defaultWallet && hdWalletExists(config.defaultWallet)
+            ? config.defaultWallet
+            : hdWallets.length === 1 ? hdWallets[0] : ""
+        if (!name) throw new ValidationError(`No default HD wallet for account index ${selector}; use <wallet>:<index>`)
+    }
+    if (!hdWalletExists(name)) throw new ValidationError(`"${name}" is not an HD wallet`)
+    return (await deriveHdAccounts(name, [Number(match[2])]))[0]
+}
+
+// Profile default account, then the configured default wallet, then the only wallet there is
+const resolveWalletName = (config: CliConfig, network: ResolvedNetwork): string | undefined => {
+    if (network.defaultAccount && anyWalletExists(network.defaultAccount)) return network.defaultAccount
+    if (config.defaultWallet) return config.defaultWallet
+    const wallets = [...listWallets(), ...listHdWallets()]
+    return wallets.length === 1 ? wallets[0] : undefined
+}
+
+const addSigningOptions = (command: Command, role = "Signing"): Command =>
+    command.option("--account <name|index>", `${role} account: wallet name, HD account index or <wallet>:<index>`)
+
+const loadSigningAccount = async (config: CliConfig, network: ResolvedNetwork, account?: string): Promise<PrivateKeyAccount> => {
+    if (account) return unlockAccount(account, config)
+    const envKey = envValue(PRIVATE_KEY_ENV)
+    if (envKey) return privateKeyToAccount(normalizePrivateKey(envKey))
+    const name = resolveWalletName(config, network)
+    if (name) return unlockNamedWallet(name)
+    if (config.privateKey) {
+        console.error(pc.yellow("Warning: using the plaintext private key from the config file. Run wallet:migrate to encrypt it."))
+        return privateKeyToAccount(normalizePrivateKey(config.privateKey))
+    }
+    throw new ValidationError("No wallet configured. Use wallet:import to add one.")
+}
+
+const importPrivateKey = async (name: string, key: string, makeDefault: boolean) => {
+    const privateKey = normalizePrivateKey(key)
+    if (anyWalletExists(name)) {
+        throw new ValidationError(`Wallet "${name}" already exists`)
+    }
+    const keystore = await encryptPrivateKey(privateKey)
+    writeKeystore(name, keystore)
+    const config = loadConfig()
+    if (makeDefault || !config.defaultWallet) {
+        saveConfig({ defaultWallet: name })
+    }
+    return { name, address: privateKeyToAccount(privateKey).address, file: keystorePath(name) }
+}
+
+// Configuration commands
+program
+    .command("config:set-rpc")
+    .description("Set RPC URL (of the active profile, if any)")
+    .argument("<url>", "RPC URL")
+    .action((url) => {
+        try {
+            const config = loadUserConfig()
+            const active = config.activeProfile
+            if (active && config.profiles?.[active]) {
+                saveConfig({ profiles: { ...config.profiles, [active]: { ...config.profiles[active], rpcUrl: url } } })
+                formatOutput({ status: "RPC URL updated", profile: active, url })
+                return
+            }
+            saveConfig({ rpcUrl: url })
+            formatOutput({ status: "RPC URL updated", url })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("config:set-key")
+    .description("Set private key (stored encrypted as the default wallet)")
+    .argument("<key>", "Private key")
+    .option("-n, --name <name>", "Wallet name", "default")
+    .action(async (key, options) => {
+        try {
+            const wallet = await importPrivateKey(options.name, key, true)
+            formatOutput({ status: "Private key imported into keystore", ...wallet }, "address")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// "rpcUrl", "profiles.<name>" or "profiles.<name>.<field>"
+const parseConfigKey = (key: string): { key: typeof CONFIG_KEYS[number]; profile?: string; field?: typeof PROFILE_FIELDS[number] } => {
+    const [top, profile, field, ...rest] = key.split(".")
+    const known = CONFIG_KEYS.find((name) => name === top)
+    const profileField = PROFILE_FIELDS.find((name) => name === field)
+    if (!known || rest.length > 0 || (known !== "profiles" && profile !== undefined) || (field !== undefined && !profileField)) {
+        throw new ValidationError(`Unknown config key "${key}" (${CONFIG_KEYS.join(", ")}, profiles.<name> or profiles.<name>.<${PROFILE_FIELDS.join("|")}>)`)
+    }
+    return { key: known, profile, field: profileField }
+}
+
+const configValue = (config: Partial<CliConfig>, key: string): unknown => {
+    const parsed = parseConfigKey(key)
+    if (parsed.profile === undefined) return config[parsed.key]
+    const profile = config.profiles?.[parsed.profile]
+    return parsed.field === undefined ? profile : profile?.[parsed.field]
+}
+
+// The layer the merged value comes from; profiles come whole from one layer
+const configSource = (layers: ConfigLayer[], key: string): string => {
+    const { profile } = parseConfigKey(key)
+    const owner = [...layers].reverse().find(({ config }) =>
+        profile === undefined ? configValue(config, key) !== undefined : config.profiles?.[profile] !== undefined)
+    return owner?.source ?? ""
+}
+
+// Private keys and passwords in URLs are never printed in full
+const maskConfigValue = (key: string, value: unknown): unknown => {
+    if (typeof value !== "string" || value === "") return value
+    if (key === "privateKey") return `****${value.slice(-4)}`
+    if (/^(https?|wss?):\/\/[^/]*:[^/]*@/.test(value)) return value.replace(/^([a-z]+:\/\/[^:/]*):[^@/]*@/, "$1:****@")
+    return value
+}
+
+program
+    .command("config:show")
+    .description("Show the effective configuration and where each value comes from")
+    .action(() => {
+        try {
+            const layers = loadConfigLayers()
+            const config = mergeConfigLayers(layers)
+            const { profiles, ...settings } = config
+            // Keys this version doesn't know are left out rather than rejected
+            const keys = [
+                ...Object.keys(settings).filter((key) => (CONFIG_KEYS as readonly string[]).includes(key)),
+                ...Object.entries(profiles ?? {}).flatMap(([name, profile]) => Object.keys(profile)
+                    .filter((field) => (PROFILE_FIELDS as readonly string[]).includes(field))
+                    .map((field) => `profiles.${name}.${field}`)),
+            ].filter((key) => configValue(config, key) !== undefined && configValue(config, key) !== "")
+            formatList(
+                keys.map((key) => ({ key, value: maskConfigValue(key, configValue(config, key)), source: configSource(layers, key) })),
+                ["Key", "Value", "Source"],
+                "key"
+            )
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("config:get")
+    .description("Print one effective configuration value")
+    .argument("<key>", "Key, e.g. rpcUrl, activeProfile or profiles.<name>.chainId")
+    .action((key) => {
+        try {
+            const layers = loadConfigLayers()
+            const value = configValue(mergeConfigLayers(layers), key)
+            if (value === undefined || value === "") throw new CliError(`${key} is not set`)
+            formatOutput({ key, value: maskConfigValue(key, value), source: configSource(layers, key) }, "value")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("config:unset")
+    .description("Remove a value from the user config file (or the project's .shardeum-cli.json)")
+    .argument("<key>", "Key, e.g. defaultWallet, profiles.<name> or profiles.<name>.wsUrl")
+    .option("--project", `Edit the nearest ${PROJECT_CONFIG_FILE} instead of the user config`)
+    .action((key, options) => {
+        try {
+            const parsed = parseConfigKey(key)
+            if (parsed.field === "rpcUrl") throw new ValidationError(`A profile needs an rpcUrl; remove the profile with config:unset profiles.${parsed.profile}`)
+            const file = options.project ? findProjectConfig() : CONFIG_PATH
+            if (!file) throw new ValidationError(`No ${PROJECT_CONFIG_FILE} in ${process.cwd()} or above`)
+            const config = readConfigFile(file)
+            if (configValue(config, key) === undefined) {
+                formatOutput({ status: "Not set", key, file })
+                return
+            }
+            if (parsed.profile === undefined) {
+                delete config[parsed.key]
+            } else if (parsed.field === undefined) {
+                delete config.profiles?.[parsed.profile]
+            } else {
+                delete config.profiles?.[parsed.profile][parsed.field]
+            }
+            writeConfigFile(file, config)
+            const layers = loadConfigLayers()
+            const remaining = configValue(mergeConfigLayers(layers), key)
+            const source = configSource(layers, key)
+            if (remaining !== undefined && remaining !== "" && source !== "default") {
+                console.error(pc.yellow(`Warning: ${key} is still set by ${source}`))
+            }
+            formatOutput({ status: "Removed", key, file })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+const profileCommand = program
+    .command("config:profile")
+    .description("Manage named network profiles")
+
+profileCommand
+    .command("add")
+    .description("Add or replace a network profile")
+    .argument("<name>", "Profile name")
+    .requiredOption("-r, --rpc <urls...>", "RPC URL, or several to fail over between")
+    .addOption(new Option("--policy <policy>", "How requests use several RPC URLs").choices(RPC_POLICIES))
+    .option("--retries <count>", `Retries of a failed request, with exponential backoff (default ${RPC_DEFAULTS.retries})`)
+    .option("--retry-delay <ms>", `Delay before the first retry (default ${RPC_DEFAULTS.retryDelayMs})`)
+    .option("--request-timeout <ms>", `Timeout of each request (default ${RPC_DEFAULTS.timeoutMs})`)
+    .option("-w, --ws <url>", "WebSocket RPC URL for watch commands")
+    .option("--api <url>", "Validator or archiver API URL for stake:info")
+    .option("-c, --chain-id <id>", "Expected chain ID")
+    .option("-e, --explorer <url>", "Block explorer URL")
+    .option("-a, --account <address>", "Default account address")
+    .option("--use", "Make this the active profile")
+    .action((name, options) => {
+        try {
+            if (options.chainId !== undefined && !/^\d+$/.test(options.chainId)) {
+                throw new ValidationError(`Invalid chain ID: ${options.chainId}`)
+            }
+            if (options.ws !== undefined && !/^wss?:\/\//.test(options.ws)) {
+                throw new ValidationError(`Invalid WebSocket URL: ${options.ws}`)
+            }
+            if (options.api !== undefined && !/^https?:\/\//.test(options.api)) {
+                throw new ValidationError(`Invalid API URL: ${options.api} (http:// or https://)`)
+            }
+            const [rpcUrl, ...rpcUrls] = options.rpc as string[]
+            const invalidUrl = (options.rpc as string[]).find((url) => !/^https?:\/\//.test(url))
+            if (invalidUrl) {
+                throw new ValidationError(`Invalid RPC URL: ${invalidUrl} (http:// or https://)`)
+            }
+            for (const [option, value] of [["--retries", options.retries], ["--retry-delay", options.retryDelay]]) {
+                if (value !== undefined && !/^\d+$/.test(value)) throw new ValidationError(`Invalid ${option}: ${value}`)
+            }
+            if (options.requestTimeout !== undefined && !/^[1-9]\d*$/.test(options.requestTimeout)) {
+                throw new ValidationError(`Invalid --request-timeout: ${options.requestTimeout}`)
+            }
+            const config = loadUserConfig()
+            const profile: NetworkProfile = {
+                rpcUrl,
+                ...(rpcUrls.length > 0 && { rpcUrls }),
+                ...(options.policy && { rpcPolicy: options.policy }),
+                ...(options.retries !== undefined && { retries: Number(options.retries) }),
+                ...(options.retryDelay !== undefined && { retryDelayMs: Number(options.retryDelay) }),
+                ...(options.requestTimeout !== undefined && { timeoutMs: Number(options.requestTimeout) }),
+                ...(options.ws && { wsUrl: options.ws }),
+                ...(options.api && { apiUrl: options.api }),
+                ...(options.chainId && { chainId: Number(options.chainId) }),
+                ...(options.explorer && { explorerUrl: options.explorer }),
+                ...(options.account && { defaultAccount: options.account }),
+            }
+            saveConfig({
+                profiles: { ...config.profiles, [name]: profile },
+                ...(options.use && { activeProfile: name }),
+            })
+            formatOutput({ status: "Profile saved", name, ...profile, active: Boolean(options.use) || config.activeProfile === name })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+profileCommand
+    .command("list")
+    .description("List network profiles")
+    .action(() => {
+        try {
+            const config = loadConfig()
+            const profiles = Object.entries(config.profiles ?? {})
+            if (profiles.length === 0 && getOutputOptions().format === "table" && !getOutputOptions().quiet) {
+                formatOutput({ status: "No profiles configured", rpcUrl: config.rpcUrl })
+                return
+            }
+            formatList(
+                profiles.map(([name, profile]) => ({
+                    active: name === config.activeProfile,
+                    name,
+                    rpcUrl: rpcEndpoints(profile).join(", "),
+                    policy: rpcEndpoints(profile).length > 1 ? profile.rpcPolicy ?? "failover" : "",
+                    wsUrl: profile.wsUrl ?? "",
+                    chainId: profile.chainId ?? "",
+                    explorerUrl: profile.explorerUrl ?? "",
+                    defaultAccount: profile.defaultAccount ?? "",
+                })),
+                ["Active", "Name", "RPC URL", "Policy", "WebSocket", "Chain ID", "Explorer", "Default Account"],
+                "name"
+            )
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+profileCommand
+    .command("use")
+    .description("Set the active network profile")
+    .argument("<name>", "Profile name")
+    .action((name) => {
+        try {
+            const config = loadUserConfig()
+            if (!config.profiles?.[name]) {
+                throw new ValidationError(`Unknown network profile "${name}"`)
+            }
+            saveConfig({ activeProfile: name })
+            formatOutput({ status: "Active profile updated", name, rpcUrl: config.profiles[name].rpcUrl })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+profileCommand
+    .command("remove")
+    .description("Remove a network profile")
+    .argument("<name>", "Profile name")
+    .action((name) => {
+        try {
+            const config = loadUserConfig()
+            if (!config.profiles?.[name]) {
+                throw new ValidationError(`Unknown network profile "${name}"`)
+            }
+            const { [name]: _removed, ...profiles } = config.profiles
+            saveConfig({
+                profiles,
+                activeProfile: config.activeProfile === name ? undefined : config.activeProfile,
+            })
+            formatOutput({ status: "Profile removed", name })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Wallet commands
+program
+    .command("wallet:import")
+    .description("Import a private key or keystore JSON file into the encrypted keystore")
+    .argument("<name>", "Wallet name")
+    .option("-k, --key <key>", "Raw private key (prompted for when neither --key nor --keystore is given)")
+    .option("-f, --keystore <file>", "Keystore v3 JSON file")
+    .option("--default", "Make this the default signing wallet")
+    .action(async (name, options) => {
+        try {
+            if (options.key && options.keystore) {
+                throw new ValidationError("Use either --key or --keystore, not both")
+            }
+            if (options.keystore) {
+                if (anyWalletExists(name)) {
+                    throw new ValidationError(`Wallet "${name}" already exists`)
+                }
+                const keystore = parseKeystore(fs.readFileSync(options.keystore, "utf-8"))
+                // Unlock once so a typo in the passphrase is caught now rather than at signing time
+                const account = privateKeyToAccount(await decryptKeystore(keystore, options.keystore))
+                writeKeystore(name, keystore)
+                if (options.default || !loadConfig().defaultWallet) {
+                    saveConfig({ defaultWallet: name })
+                }
+                formatOutput({ status: "Keystore imported", name, address: account.address, file: keystorePath(name) }, "address")
+                return
+            }
+            const key = options.key ?? await promptHidden("Private key: ")
+            const wallet = await importPrivateKey(name, key, Boolean(options.default))
+            formatOutput({ status: "Private key imported", ...wallet }, "address")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("wallet:export")
+    .description("Export a wallet as keystore JSON or as a raw private key")
+    .argument("<name>", "Wallet name")
+    .option("-o, --out <file>", "Write to a file instead of stdout")
+    .option("--private-key", "Export the decrypted private key instead of the keystore")
+    .option("--mnemonic", "Export the decrypted mnemonic of an HD wallet")
+    .action(async (name, options) => {
+        try {
+            let exported: string
+            if (hdWalletExists(name)) {
+                if (options.privateKey) {
+                    throw new ValidationError(`"${name}" is an HD wallet: use --mnemonic, or wallet:derive for single accounts`)
+                }
+                exported = options.mnemonic ? await unlockMnemonic(name) : fs.readFileSync(hdWalletPath(name), "utf-8").trim()
+            } else {
+                if (options.mnemonic) throw new ValidationError(`"${name}" is not an HD wallet`)
+                const keystore = readKeystore(name)
+                exported = options.privateKey
+                    ? await decryptKeystore(keystore, `wallet "${name}"`)
+                    : fs.readFileSync(keystorePath(name), "utf-8").trim()
+            }
+            if (options.out) {
+                fs.writeFileSync(options.out, `${exported}\n`, { mode: 0o600 })
+                formatOutput({ status: "Wallet exported", name, address: walletAddress(name), file: options.out })
+                return
+            }
+            console.log(exported)
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("wallet:list")
+    .description("List keystore and HD wallets")
+    .action(() => {
+        try {
+            const config = loadConfig()
+            const wallets = [...listWallets(), ...listHdWallets()].sort()
+            if (wallets.length === 0 && getOutputOptions().format === "table" && !getOutputOptions().quiet) {
+                formatOutput({ status: "No wallets. Use wallet:import or wallet:create to add one.", keystore: KEYSTORE_DIR })
+                return
+            }
+            formatList(
+                wallets.map((name) => ({
+                    default: name === config.defaultWallet,
+                    name,
+                    type: hdWalletExists(name) ? `hd (${Object.keys(readHdWallet(name).accounts).length} derived)` : "keystore",
+                    address: walletAddress(name),
+                    file: hdWalletExists(name) ? hdWalletPath(name) : keystorePath(name),
+                })),
+                ["Default", "Name", "Type", "Address", "File"],
+                "address"
+            )
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("wallet:use")
+    .description("Set the default signing wallet")
+    .argument("<name>", "Wallet name")
+    .action((name) => {
+        try {
+            const address = walletAddress(name)
+            saveConfig({ defaultWallet: name })
+            formatOutput({ status: "Default wallet updated", name, address })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("wallet:create")
+    .description("Create an HD wallet from a new BIP-39 mnemonic")
+    .argument("<name>", "Wallet name")
+    .option("-w, --words <count>", "Mnemonic length: 12 or 24 words", "12")
+    .option("--default", "Make this the default signing wallet")
+    .action(async (name, options) => {
+        try {
+            if (options.words !== "12" && options.words !== "24") {
+                throw new ValidationError(`Invalid mnemonic length: ${options.words} (use 12 or 24)`)
+            }
+            const { mnemonic, address } = await createHdWallet(name, Number(options.words) as 12 | 24)
+            if (options.default || !loadConfig().defaultWallet) {
+                saveConfig({ defaultWallet: name })
+            }
+            console.error(pc.yellow("Write the mnemonic down and keep it offline: it restores every account of this wallet."))
+            formatOutput({ status: "HD wallet created", name, address, path: `${HD_PATH}/0`, mnemonic, file: hdWalletPath(name) }, "address")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("wallet:derive")
+    .description("Derive BIP-44 accounts of an HD wallet by index")
+    .argument("<name>", "HD wallet name")
+    .option("-i, --index <index>", "First account index", "0")
+    .option("-c, --count <count>", "Number of accounts", "1")
+    .action(async (name, options) => {
+        try {
+            const first = Number(options.index)
+            const count = Number(options.count)
+            if (!Number.isInteger(first) || first < 0 || !Number.isInteger(count) || count < 1) {
+                throw new ValidationError("--index must be a non-negative integer and --count a positive integer")
+            }
+            readHdWallet(name)
+            const indexes = Array.from({ length: count }, (_, i) => first + i)
+            const accounts = await deriveHdAccounts(name, indexes)
+            formatList(
+                accounts.map((account, i) => ({
+                    index: indexes[i],
+                    account: `${name}:${indexes[i]}`,
+                    path: `${HD_PATH}/${indexes[i]}`,
+                    address: account.address,
+                })),
+                ["Index", "Account", "Path", "Address"],
+                "address"
+            )
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("wallet:migrate")
+    .description("Move the plaintext private key from the config file into the encrypted keystore")
+    .option("-n, --name <name>", "Wallet name", "default")
+    .action(async (options) => {
+        try {
+            const config = loadUserConfig()
+            if (!config.privateKey) {
+                formatOutput({ status: "Nothing to migrate: no plaintext private key in the config file" })
+                return
+            }
+            const wallet = await importPrivateKey(options.name, config.privateKey, true)
+            // saveConfig merges, so write the file directly to drop the key entirely
+            const { privateKey: _plaintext, ...rest } = readConfigFile(CONFIG_PATH)
+            writeConfigFile(CONFIG_PATH, rest)
+            formatOutput({ status: "Private key migrated and removed from config", ...wallet }, "address")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Ethereum JSON-RPC commands
+program
+    .command("eth:blockNumber")
+    .description("Get the latest block number")
+    .action(async () => {
+        try {
+            const client = getPublicClient()
+            const result = await client.getBlockNumber()
+            formatOutput({ blockNumber: result.toString() })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("eth:getBalance")
+    .description("Get balance for an address")
+    .argument("[address]", "Ethereum address (defaults to the profile's default account)")
+    .action(async (addressArg) => {
+        try {
+            const network = resolveNetwork()
+            const address = resolveAccountAddress(addressArg, network)
+            const client = getPublicClient(network)
+            const balance = await client.getBalance({ address })
+            formatOutput({
+                address,
+                balance: formatEther(balance),
+            }, "balance")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// eth_getStorageAt
+program
+    .command("eth:getStorageAt")
+    .description("Get storage value at address and position")
+    .argument("<address>", "Contract address")
+    .argument("<position>", "Storage position")
+    .action(async (address, position) => {
+        try {
+            const client = getPublicClient()
+            const storage = await client.getStorageAt({ address, slot: position })
+            formatOutput({ address, position, storage }, "storage")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// eth_getTransactionCount
+program
+    .command("eth:getTransactionCount")
+    .description("Get transaction count for address")
+    .argument("[address]", "Account address (defaults to the profile's default account)")
+    .action(async (addressArg) => {
+        try {
+            const network = resolveNetwork()
+            const address = resolveAccountAddress(addressArg, network)
+            const client = getPublicClient(network)
+            const count = await client.getTransactionCount({ address })
+            formatOutput({ address, transactionCount: count.toString() }, "transactionCount")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// eth_getCode
+program
+    .command("eth:getCode")
+    .description("Get code at address")
+    .argument("<address>", "Contract address")
+    .action(async (address) => {
+        try {
+            const client = getPublicClient()
+            const code = await client.getBytecode({ address })
+            formatOutput({ address, code }, "code")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// eth_call
+program
+    .command("eth:call")
+    .description("Execute contract call")
+    .requiredOption("-t, --to <address>", "Contract address")
+    .requiredOption("-d, --data <data>", "Call data")
+    .option("-f, --from <address>", "From address (defaults to the profile's default account)")
+    .action(async (options) => {
+        try {
+            const network = resolveNetwork()
+            const client = getPublicClient(network)
+            const from = options.from || network.defaultAccount ? resolveAccountAddress(options.from, network) : undefined
+            const result = await client.call({
+                to: options.to,
+                data: options.data,
+                ...(from && { account: from }),
+            })
+            formatOutput({ result: result.data })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// eth_estimateGas
+program
+    .command("eth:estimateGas")
+    .description("Estimate gas for transaction")
+    .requiredOption("-t, --to <address>", "To address")
+    .requiredOption("-d, --data <data>", "Transaction data")
+    .option("-f, --from <address>", "From address (defaults to the profile's default account)")
+    .option("-v, --value <value>", "Value in wei")
+    .action(async (options) => {
+        try {
+            const network = resolveNetwork()
+            const client = getPublicClient(network)
+            const from = options.from || network.defaultAccount ? resolveAccountAddress(options.from, network) : undefined
+            const gasEstimate = await client.estimateGas({
+                to: options.to,
+                data: options.data,
+                ...(from && { account: from }),
+                ...(options.value && { value: BigInt(options.value) }),
+            })
+            formatOutput({ gasEstimate: gasEstimate.toString() })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Block and Transaction related commands
+program
+    .command("eth:getBlockTransactionCountByHash")
+    .description("Get block transaction count by hash")
+    .argument("<hash>", "Block hash")
+    .action(async (hash) => {
+        try {
+            const client = getPublicClient()
+            const count = await client.request({
+                method: "eth_getBlockTransactionCountByHash",
+                params: [hash],
+            })
+            formatOutput({ blockHash: hash, transactionCount: Number(count) }, "transactionCount")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+
+
+// Add remaining block and transaction commands
+const blockCommands: { name: string; description: string; load: (client: PublicClient, value: string) => Promise<unknown> }[] = [
+    {
+        name: "eth:getBlockByHash",
+        description: "Get block by hash",
+        load: (client, hash) => client.getBlock({ blockHash: hash as Hex }),
+    },
+    {
+        name: "eth:getBlockByNumber",
+        description: "Get block by number",
+        load: (client, number) => client.getBlock({ blockNumber: BigInt(number) }),
+    },
+    {
+        name: "eth:getTransactionByHash",
+        description: "Get transaction by hash",
+        load: (client, hash) => client.getTransaction({ hash: hash as Hex }),
+    },
+]
+
+blockCommands.forEach(({ name, description, load }) => {
+    program
+        .command(name)
+        .description(description)
+        .argument("<value>", "Hash or block number")
+        .action(async (value) => {
+            try {
+                const client = getPublicClient()
+                const result = await load(client, value)
+                formatOutput(result)
+            } catch (error) {
+                handleError(error)
+            }
+        })
+})
+
+// Network and utility commands
+program
+    .command("web3:clientVersion")
+    .description("Get client version")
+    .action(async () => {
+        try {
+            const client = getPublicClient()
+            const version = await client.request({ method: "web3_clientVersion" })
+            formatOutput({ clientVersion: version })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("web3:sha3")
+    .description("Calculate Keccak-256 hash")
+    .argument("<data>", "Data to hash")
+    .action(async (data) => {
+        try {
+            const client = getPublicClient()
+            const hash = await client.request({
+                method: "web3_sha3",
+                params: [data],
+            })
+            formatOutput({ input: data, hash }, "hash")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("net:version")
+    .description("Get network version")
+    .action(async () => {
+        try {
+            const client = getPublicClient()
+            const version = await client.request({ method: "net_version" })
+            formatOutput({ networkVersion: version })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("net:health")
+    .description("Probe every RPC endpoint of the profile: latency, head block, chain ID and sync lag")
+    .option("--max-lag <blocks>", "Blocks behind the highest head before an endpoint counts as lagging", "5")
+    .action(async (options) => {
+        try {
+            const maxLag = Number(options.maxLag)
+            if (!Number.isInteger(maxLag) || maxLag < 0) throw new ValidationError(`Invalid --max-lag: ${options.maxLag}`)
+            const network = resolveNetwork()
+            const timeout = network.timeoutMs ?? RPC_DEFAULTS.timeoutMs
+
+            // Each endpoint on its own, without retries or failover, so a slow or dead node shows as such
+            const probes = await Promise.all(rpcEndpoints(network).map(async (url) => {
+                const client = createPublicClient({ transport: http(url, { retryCount: 0, timeout }) })
+                try {
+                    const started = performance.now()
+                    const blockNumber = await client.getBlockNumber({ cacheTime: 0 })
+                    const latencyMs = Math.round(performance.now() - started)
+                    const [chainId, syncing] = await Promise.all([
+                        client.getChainId(),
+                        // Not in viem's public schema, so asked for through the untyped request function
+                        (client.request as EIP1193RequestFn)({ method: "eth_syncing" }).then((result) => result !== false, () => undefined),
+                    ])
+                    return { url, latencyMs, blockNumber, chainId, syncing }
+                } catch (error) {
+                    return { url, error: errorSummary(error) }
+                }
+            }))
+
+            const heads = probes.map((probe) => probe.blockNumber).filter((head): head is bigint => head !== undefined)
+            const highest = heads.reduce((max, head) => (head > max ? head : max), BigInt(0))
+            const records = probes.map((probe) => {
+                if (probe.error !== undefined || probe.blockNumber === undefined) {
+                    return { endpoint: probe.url, status: `down: ${probe.error}`, latencyMs: "", blockNumber: "", chainId: "", lag: "", syncing: "" }
+                }
+                const lag = highest - probe.blockNumber
+                const status = network.chainId !== undefined && probe.chainId !== network.chainId ? "wrong chain"
+                    : lag > BigInt(maxLag) ? "lagging"
+                    : probe.syncing ? "syncing"
+                    : "ok"
+                return {
+                    endpoint: probe.url,
+                    status,
+                    latencyMs: probe.latencyMs,
+                    blockNumber: probe.blockNumber,
+                    chainId: probe.chainId,
+                    lag,
+                    syncing: probe.syncing ?? "unknown",
+                }
+            })
+            formatList(records, ["Endpoint", "Status", "Latency (ms)", "Head block", "Chain ID", "Lag (blocks)", "Syncing"], "status")
+            if (records.some((record) => record.status !== "ok")) {
+                process.exitCode = EXIT_CODES.rpc
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// One value to compare across nodes, e.g. a balance at the compared block
+interface ConsistencyCheck {
+    name: string
+    query: (client: PublicClient) => Promise<string>
+}
+
+const consistencyChecks = (
+    block: bigint,
+    options: { address?: string[]; slot?: string[]; tx?: string[]; latest?: boolean }
+): ConsistencyCheck[] => {
+    const stateAt = options.latest ? { blockTag: "latest" as const } : { blockNumber: block }
+    const blockField = (field: "hash" | "parentHash" | "stateRoot" | "transactionsRoot") => ({
+        name: `block ${block} ${field}`,
+        query: async (client: PublicClient) => String((await client.getBlock({ blockNumber: block }))[field]),
+    })
+    const checks: ConsistencyCheck[] = [
+        blockField("hash"),
+        blockField("parentHash"),
+        blockField("stateRoot"),
+        blockField("transactionsRoot"),
+        {
+            name: `block ${block} transactions`,
+            query: async (client) => String(await client.getBlockTransactionCount({ blockNumber: block })),
+        },
+    ]
+    for (const value of options.address ?? []) {
+        if (!isAddress(value)) throw new ValidationError(`Invalid address: ${value}`)
+        const address = getAddress(value)
+        checks.push(
+            { name: `balance ${address}`, query: async (client) => String(await client.getBalance({ address, ...stateAt })) },
+            { name: `nonce ${address}`, query: async (client) => String(await client.getTransactionCount({ address, ...stateAt })) },
+        )
+    }
+    for (const entry of options.slot ?? []) {
+        const [contract, slot] = entry.split(":")
+        if (!isAddress(contract ?? "") || !/^0x[0-9a-fA-F]{1,64}$/.test(slot ?? "")) {
+            throw new ValidationError(`Invalid storage slot "${entry}": use <address>:<0xslot>`)
+        }
+        checks.push({
+            name: `storage ${getAddress(contract)}[${slot}]`,
+            query: async (client) => String(await client.getStorageAt({ address: contract as Address, slot: slot as Hex, ...stateAt })),
+        })
+    }
+    for (const hash of options.tx ?? []) {
+        if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) throw new ValidationError(`Invalid transaction hash: ${hash}`)
+        checks.push({
+            name: `tx ${hash}`,
+            query: async (client) => {
+                const receipt = await client.getTransactionReceipt({ hash: hash as Hex }).catch(() => undefined)
+                if (receipt) return `${receipt.status} in block ${receipt.blockNumber} (${receipt.blockHash})`
+                const tx = await client.getTransaction({ hash: hash as Hex }).catch(() => undefined)
+                return tx ? "pending" : "not found"
+            },
+        })
+    }
+    return checks
+}
+
+program
+    .command("net:compare")
+    .description("Compare blocks, balances, nonces, storage and transactions across RPC nodes and show where they disagree")
+    .argument("[urls...]", "RPC URLs to compare (default: the profile's RPC endpoints)")
+    .option("-b, --block <number>", "Block to compare (default: the lowest head among the nodes)")
+    .option("-a, --address <addresses...>", "Accounts whose balance and nonce to compare")
+    .option("-s, --slot <slots...>", "Storage slots to compare, as <address>:<0xslot>")
+    .option("-t, --tx <hashes...>", "Transactions to look up")
+    .option("--latest", "Compare account state at each node's latest block (for nodes without historical state)")
+    .option("--timeout <seconds>", "Keep re-checking mismatches for this long before reporting them", "30")
+    .option("-i, --interval <seconds>", "Delay between re-checks", "2")
+    .action(async (urlArgs: string[], options) => {
+        try {
+            const timeout = Number(options.timeout)
+            const interval = parseInterval(options.interval)
+            if (!(timeout >= 0)) throw new ValidationError(`Invalid timeout: ${options.timeout}`)
+            const network = resolveNetwork()
+            const urls = [...new Set(urlArgs.length > 0 ? urlArgs : rpcEndpoints(network))]
+            if (urls.length < 2) {
+                throw new ValidationError("Give at least two RPC URLs, or use a profile with several endpoints")
+            }
+            const requestTimeout = network.timeoutMs ?? RPC_DEFAULTS.timeoutMs
+            const clients = urls.map((url) => createPublicClient({ transport: http(url, { retryCount: 1, timeout: requestTimeout }) }))
+
+            // Fixed for every attempt so that retries compare like with like
+            const heads = await Promise.all(clients.map((client) => client.getBlockNumber().catch(() => undefined)))
+            const reachable = heads.filter((head): head is bigint => head !== undefined)
+            if (reachable.length === 0) throw new CliError("None of the nodes answered", EXIT_CODES.rpc)
+            const lowest = reachable.reduce((min, head) => (head < min ? head : min))
+            const block = options.block !== undefined ? parseBlockNumber(options.block, lowest) : lowest
+            const checks = consistencyChecks(block, options)
+
+            const { format, quiet } = getOutputOptions()
+            const log = format === "table" && !quiet ? console.error : () => {}
+            const deadline = Date.now() + timeout * 1000
+            let pending = checks
+            const values = new Map<string, string[]>()
+            let attempts = 0
+            while (pending.length > 0) {
+                attempts++
+                // Only checks that still disagree are queried again
+                const results = await Promise.all(pending.map((check) => Promise.all(clients.map((client) =>
+                    check.query(client).catch((error) => `error: ${errorSummary(error)}`)))))
+                pending.forEach((check, i) => values.set(check.name, results[i]))
+                pending = pending.filter((check) => new Set(values.get(check.name)).size > 1)
+                if (pending.length === 0 || Date.now() + interval * 1000 > deadline) break
+                log(`${pending.length} check(s) differ, checking again in ${interval}s...`)
+                await new Promise((resolve) => setTimeout(resolve, interval * 1000))
+            }
+
+            const mismatches = pending.map((check) => ({
+                check: check.name,
+                ...Object.fromEntries(urls.map((url, i) => [url, (values.get(check.name) as string[])[i]])),
+            }))
+            if (format === "table" && !quiet) {
+                formatOutput({ block, nodes: urls.length, checks: checks.length, attempts, mismatches: mismatches.length })
+                if (mismatches.length > 0) formatList(mismatches, ["Check", ...urls], "check")
+            } else {
+                formatList(mismatches, [], "check")
+            }
+            if (mismatches.length > 0) {
+                process.exitCode = EXIT_CODES.error
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("eth:protocolVersion")
+    .description("Get Ethereum protocol version")
+    .action(async () => {
+        try {
+            const client = getPublicClient()
+            const version = await client.request({ method: "eth_protocolVersion" })
+            formatOutput({ protocolVersion: version })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Raw JSON-RPC
+// Parameters are JSON where they parse as JSON, plain strings otherwise, so "latest" and 0x... need no quoting
+const parseRpcParam = (value: string): unknown => {
+    try {
+        return JSON.parse(value)
+    } catch {
+        return value
+    }
+}
+
+interface RpcBatchRequest {
+    jsonrpc: "2.0"
+    id: number | string
+    method: string
+    params: unknown[]
+}
+
+const readRpcBatch = (file: string): RpcBatchRequest[] => {
+    const entries = readJsonFile(file)
+    if (!Array.isArray(entries) || entries.length === 0) {
+        throw new ValidationError(`${file} must contain a non-empty JSON array of { method, params, id } requests`)
+    }
+    const requests = entries.map((entry: any, i: number): RpcBatchRequest => {
+        if (typeof entry?.method !== "string" || !entry.method) {
+            throw new ValidationError(`Request ${i + 1} in ${file} has no method`)
+        }
+        if (entry.params !== undefined && !Array.isArray(entry.params)) {
+            throw new ValidationError(`Request ${i + 1} (${entry.method}) in ${file}: params must be an array`)
+        }
+        return { jsonrpc: "2.0", id: entry.id ?? i + 1, method: entry.method, params: entry.params ?? [] }
+    })
+    const ids = new Set(requests.map((request) => request.id))
+    if (ids.size !== requests.length) throw new ValidationError(`Request ids in ${file} must be unique`)
+    return requests
+}
+
+// Posts the batch as it is, since viem's transports only batch their own requests. Endpoints, retries and backoff
+// follow the profile like every other command: each attempt tries the endpoints in turn until one answers.
+const postRpcBatch = async (network: ResolvedNetwork, requests: RpcBatchRequest[], timeoutMs: number): Promise<unknown> => {
+    const urls = rpcEndpoints(network)
+    const invalid = urls.find((url) => !/^https?:\/\//.test(url))
+    if (invalid) throw new ValidationError(`rpc:batch needs HTTP RPC URLs, profile "${network.name}" uses ${invalid}`)
+    const retries = network.retries ?? RPC_DEFAULTS.retries
+    const retryDelay = network.retryDelayMs ?? RPC_DEFAULTS.retryDelayMs
+    const failures: string[] = []
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        if (attempt > 0) await wait(retryDelay * 2 ** (attempt - 1))
+        for (const url of urls) {
+            try {
+                const response = await fetch(url, {
+                    method: "POST",
+                    headers: { "content-type": "application/json" },
+                    body: JSON.stringify(requests),
+                    signal: AbortSignal.timeout(timeoutMs),
+                })
+                if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`)
+                return await response.json()
+            } catch (error) {
+                failures.push(`${url}: ${(error as Error).message}`)
+            }
+        }
+    }
+    throw new CliError(`Batch request failed on every endpoint (${failures.slice(-urls.length).join("; ")})`, EXIT_CODES.rpc)
+}
+
+program
+    .command("rpc:call")
+    .description("Call any JSON-RPC method, e.g. rpc:call eth_getBlockTransactionCountByNumber latest")
+    .argument("<method>", "JSON-RPC method name")
+    .argument("[params...]", "Parameters, as JSON (objects, arrays, numbers, true/false/null) or plain strings")
+    .action(async (method: string, rawParams: string[]) => {
+        try {
+            // Any method name goes, so the request function is used without viem's typed schema
+            const request = getPublicClient().request as EIP1193RequestFn
+            const result = await request({ method, params: rawParams.map(parseRpcParam) })
+            formatOutput(result)
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("rpc:batch")
+    .description("Send a JSON array of requests as one JSON-RPC batch and match each response to its request")
+    .argument("<file>", "JSON array of { method, params, id } (ids default to the position in the file)")
+    .option("--timeout <seconds>", "Timeout of each HTTP request (default: the profile's request timeout)")
+    .action(async (file, options) => {
+        try {
+            const requests = readRpcBatch(file)
+            const timeout = options.timeout === undefined ? undefined : Number(options.timeout)
+            if (timeout !== undefined && !(timeout > 0)) throw new ValidationError(`Invalid timeout: ${options.timeout}`)
+            const network = resolveNetwork()
+            const responses: any = await postRpcBatch(network, requests, timeout !== undefined
+                ? timeout * 1000
+                : network.timeoutMs ?? RPC_DEFAULTS.timeoutMs)
+            // A node that rejects the whole batch answers with a single error object
+            if (!Array.isArray(responses)) {
+                const message = responses?.error?.message ?? JSON.stringify(responses)
+                throw new CliError(`The node rejected the batch: ${message}`, EXIT_CODES.rpc)
+            }
+
+            // Responses may come back in any order
+            const byId = new Map(responses.map((response: any) => [response?.id, response]))
+            const records = requests.map((request) => {
+                const response = byId.get(request.id)
+                if (!response) return { id: request.id, method: request.method, status: "missing", result: "no response" }
+                if (response.error) {
+                    return {
+                        id: request.id,
+                        method: request.method,
+                        status: "error",
+                        result: `${response.error.message} (${response.error.code})`,
+                    }
+                }
+                return { id: request.id, method: request.method, status: "ok", result: response.result }
+            })
+            formatList(records, ["Id", "Method", "Status", "Result"], "result")
+            if (records.some((record) => record.status !== "ok")) {
+                process.exitCode = EXIT_CODES.rpc
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Fees
+const FEE_STRATEGIES = ["slow", "normal", "fast"] as const
+type FeeStrategy = typeof FEE_STRATEGIES[number]
+// Reward percentile of recent blocks each strategy pays as its priority fee
+const STRATEGY_PERCENTILES: Record<FeeStrategy, number> = { slow: 10, normal: 50, fast: 90 }
+const FEE_HISTORY_BLOCKS = 20
+
+type FeeParams = { gasPrice: bigint } | { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+
+interface FeeOptions {
+    gasPrice?: string
+    maxFee?: string
+    priorityFee?: string
+    feeStrategy?: FeeStrategy
+}
+
+// Shared by every command that sends a transaction, so their fee flags can't drift apart
+const addFeeOptions = (command: Command): Command => command
+    .option("-p, --gasPrice <price>", "Legacy gas price in gwei")
+    .option("--max-fee <gwei>", "EIP-1559 max fee per gas in gwei")
+    .option("--priority-fee <gwei>", "EIP-1559 priority fee per gas in gwei")
+    .addOption(new Option("--fee-strategy <strategy>", "Fees from recent blocks' priority fees").choices(FEE_STRATEGIES))
+
+const addGasOptions = (command: Command): Command => command
+    .option("-g, --gas <limit>", "Gas limit (estimated when omitted)")
+    .option("-n, --nonce <nonce>", "Nonce value")
+
+const parseGweiOption = (value: string, option: string): bigint => {
+    if (!/^\d+(\.\d+)?$/.test(value)) throw new ValidationError(`Invalid ${option}: ${value} (expected gwei)`)
+    return parseGwei(value)
+}
+
+type FeeHistory = Awaited<ReturnType<PublicClient["getFeeHistory"]>>
+type Block = Awaited<ReturnType<PublicClient["getBlock"]>>
+
+// Median reward at the `index`th requested percentile. Empty blocks report a zero reward, so only blocks that
+// carried transactions count; undefined when there were none.
+const medianReward = (history: FeeHistory | undefined, index: number): bigint | undefined => {
+    const rewards = (history?.reward ?? [])
+        .filter((_, i) => (history?.gasUsedRatio[i] ?? 0) > 0)
+        .map((reward) => reward[index])
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    return rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : undefined
+}
+
+// Fees of every strategy from one block and one fee history, so they are consistent with each other.
+// Nodes without a base fee in their blocks only price legacy transactions.
+const suggestAllFees = async (client: PublicClient, latest?: Block): Promise<Record<FeeStrategy, FeeParams>> => {
+    const block = latest ?? await client.getBlock()
+    if (block.baseFeePerGas === null || block.baseFeePerGas === undefined) {
+        const gasPrice = await client.getGasPrice()
+        return { slow: { gasPrice }, normal: { gasPrice }, fast: { gasPrice } }
+    }
+    const history = await client.getFeeHistory({
+        blockCount: FEE_HISTORY_BLOCKS,
+        rewardPercentiles: FEE_STRATEGIES.map((strategy) => STRATEGY_PERCENTILES[strategy]),
+    }).catch(() => undefined)
+    // The last entry is the base fee of the next block; doubling it survives six full blocks in a row
+    const baseFee = history?.baseFeePerGas[history.baseFeePerGas.length - 1] ?? block.baseFeePerGas
+    let estimate: bigint | undefined
+    const fees: Partial<Record<FeeStrategy, FeeParams>> = {}
+    for (const [i, strategy] of FEE_STRATEGIES.entries()) {
+        let maxPriorityFeePerGas = medianReward(history, i)
+        if (maxPriorityFeePerGas === undefined) {
+            estimate = estimate ?? await client.estimateMaxPriorityFeePerGas()
+            maxPriorityFeePerGas = estimate
+        }
+        fees[strategy] = { maxFeePerGas: baseFee * BigInt(2) + maxPriorityFeePerGas, maxPriorityFeePerGas }
+    }
+    return fees as Record<FeeStrategy, FeeParams>
+}
+
+const suggestFees = async (client: PublicClient, strategy: FeeStrategy = "normal"): Promise<FeeParams> =>
+    (await suggestAllFees(client))[strategy]
+
+// Fee fields for a transaction from --gasPrice, --max-fee, --priority-fee and --fee-strategy; without any of them
+// the fees are left to the client. Missing EIP-1559 values are filled in from the strategy ("normal" by default).
+const resolveFees = async (client: PublicClient, options: FeeOptions): Promise<FeeParams | Record<string, never>> => {
+    const gasPrice = options.gasPrice !== undefined ? parseGweiOption(options.gasPrice, "--gasPrice") : undefined
+    const maxFee = options.maxFee !== undefined ? parseGweiOption(options.maxFee, "--max-fee") : undefined
+    const priorityFee = options.priorityFee !== undefined ? parseGweiOption(options.priorityFee, "--priority-fee") : undefined
+    const dynamic = maxFee !== undefined || priorityFee !== undefined || options.feeStrategy !== undefined
+    if (gasPrice !== undefined) {
+        if (dynamic) throw new ValidationError("Use --gasPrice or --max-fee/--priority-fee/--fee-strategy, not both")
+        return { gasPrice }
+    }
+    if (!dynamic) return {}
+    if (maxFee !== undefined && priorityFee !== undefined && priorityFee > maxFee) {
+        throw new ValidationError("--priority-fee can't be higher than --max-fee")
+    }
+
+    const suggested = await suggestFees(client, options.feeStrategy)
+    if ("gasPrice" in suggested) {
+        console.error(pc.yellow(
+            `Warning: the node does not support EIP-1559 fees, sending a legacy transaction at ${formatGwei(suggested.gasPrice)} gwei`))
+        if (maxFee !== undefined && suggested.gasPrice > maxFee) {
+            throw new ValidationError(`The node's gas price (${formatGwei(suggested.gasPrice)} gwei) is above --max-fee ${options.maxFee}`)
+        }
+        return suggested
+    }
+    const baseFeeAllowance = suggested.maxFeePerGas - suggested.maxPriorityFeePerGas
+    const maxPriorityFeePerGas = priorityFee
+        ?? (maxFee !== undefined && suggested.maxPriorityFeePerGas > maxFee ? maxFee : suggested.maxPriorityFeePerGas)
+    return { maxFeePerGas: maxFee ?? baseFeeAllowance + maxPriorityFeePerGas, maxPriorityFeePerGas }
+}
+
+// Most a transaction can cost in fees with these parameters
+const maxGasCost = (fees: FeeParams, gas: bigint): bigint =>
+    gas * ("gasPrice" in fees ? fees.gasPrice : fees.maxFeePerGas)
+
+program
+    .command("eth:gasPrice")
+    .description("Get the current gas price, and the EIP-1559 fees each --fee-strategy would pay")
+    .action(async () => {
+        try {
+            const client = getPublicClient()
+            const [gasPrice, block] = await Promise.all([client.getGasPrice(), client.getBlock()])
+            if (block.baseFeePerGas === null || block.baseFeePerGas === undefined) {
+                formatOutput({ gasPrice: `${formatGwei(gasPrice)} gwei`, eip1559: false }, "gasPrice")
+                return
+            }
+            const suggested = await suggestAllFees(client, block)
+            const strategies: Record<string, string> = {}
+            for (const strategy of FEE_STRATEGIES) {
+                const fees = suggested[strategy]
+                strategies[strategy] = "maxFeePerGas" in fees
+                    ? `max ${formatGwei(fees.maxFeePerGas)} / priority ${formatGwei(fees.maxPriorityFeePerGas)} gwei`
+                    : `${formatGwei(fees.gasPrice)} gwei`
+            }
+            formatOutput({
+                gasPrice: `${formatGwei(gasPrice)} gwei`,
+                eip1559: true,
+                baseFee: `${formatGwei(block.baseFeePerGas)} gwei`,
+                ...strategies,
+            }, "gasPrice")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("eth:maxPriorityFeePerGas")
+    .description("Get the node's suggested EIP-1559 priority fee")
+    .action(async () => {
+        try {
+            const client = getPublicClient()
+            const fee = await client.request({ method: "eth_maxPriorityFeePerGas" })
+            formatOutput({ maxPriorityFeePerGas: `${formatGwei(hexToBigInt(fee))} gwei` }, "maxPriorityFeePerGas")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("eth:feeHistory")
+    .description("Get base fees, gas usage and priority fee percentiles of recent blocks")
+    .option("-b, --blocks <count>", "Number of blocks", "10")
+    .option("--newest <block>", "Newest block of the range", "latest")
+    .option("-p, --percentiles <list>", "Comma-separated priority fee percentiles", "10,50,90")
+    .action(async (options) => {
+        try {
+            const blockCount = Number(options.blocks)
+            if (!Number.isInteger(blockCount) || blockCount < 1 || blockCount > 1024) {
+                throw new ValidationError(`Invalid block count: ${options.blocks} (1-1024)`)
+            }
+            const percentiles = String(options.percentiles).split(",").map((value) => Number(value.trim()))
+            if (percentiles.some((p, i) => !(p >= 0 && p <= 100) || (i > 0 && p < percentiles[i - 1]))) {
+                throw new ValidationError(`Invalid percentiles: ${options.percentiles} (ascending numbers from 0 to 100)`)
+            }
+            const client = getPublicClient()
+            const newest = parseBlockNumber(options.newest, await client.getBlockNumber())
+            const history = await client.getFeeHistory({ blockCount, blockNumber: newest, rewardPercentiles: percentiles })
+            // baseFeePerGas has one extra entry: the base fee of the block after the range
+            const records = history.gasUsedRatio.map((ratio, i) => ({
+                block: history.oldestBlock + BigInt(i),
+                baseFee: formatGwei(history.baseFeePerGas[i]),
+                gasUsed: `${(ratio * 100).toFixed(1)}%`,
+                ...Object.fromEntries(percentiles.map((p, j) => [`p${p}`, formatGwei(history.reward?.[i]?.[j] ?? BigInt(0))])),
+            }))
+            formatList(records, ["Block", "Base fee (gwei)", "Gas used", ...percentiles.map((p) => `p${p} priority (gwei)`)], "baseFee")
+            if (getOutputOptions().format === "table" && !getOutputOptions().quiet) {
+                console.log(`Next block base fee: ${formatGwei(history.baseFeePerGas[history.baseFeePerGas.length - 1])} gwei`)
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Receipts
+type PublicClient = ReturnType<typeof createPublicClient>
+type TransactionReceipt = Awaited<ReturnType<PublicClient["getTransactionReceipt"]>>
+
+// Re-runs a failed transaction as a call at its block to recover the revert reason; custom errors in `abi` are decoded
+const getRevertReason = async (client: PublicClient, receipt: TransactionReceipt, abi: Abi = []): Promise<string> => {
+    const tx = await client.getTransaction({ hash: receipt.transactionHash })
+    try {
+        await client.call({
+            account: tx.from,
+            to: tx.to,
+            data: tx.input,
+            value: tx.value,
+            gas: tx.gas,
+            blockNumber: receipt.blockNumber,
+        })
+        return "unknown (the call succeeds when replayed)"
+    } catch (error) {
+        const contractError = toContractError(error, {
+            abi,
+            address: tx.to ?? receipt.contractAddress ?? tx.from,
+            args: [],
+            functionName: "",
+            sender: tx.from,
+        })
+        return describeRevert(contractError) ?? (error as BaseError).shortMessage ?? "unknown"
+    }
+}
+
+const summarizeReceipt = async (client: PublicClient, receipt: TransactionReceipt) => {
+    const latest = await client.getBlockNumber()
+    const failed = receipt.status !== "success"
+    return {
+        transactionHash: receipt.transactionHash,
+        status: receipt.status,
+        blockNumber: receipt.blockNumber,
+        confirmations: latest - receipt.blockNumber + BigInt(1),
+        from: receipt.from,
+        to: receipt.to,
+        ...(receipt.contractAddress && { contractAddress: receipt.contractAddress }),
+        gasUsed: receipt.gasUsed,
+        effectiveGasPrice: receipt.effectiveGasPrice,
+        fee: formatEther(receipt.gasUsed * receipt.effectiveGasPrice),
+        logs: receipt.logs.map(({ logIndex, address, topics, data }) => ({ logIndex, address, topics, data })),
+        ...(failed && { revertReason: await getRevertReason(client, receipt) }),
+    }
+}
+
+const addWaitOptions = (command: Command): Command => command
+    .option("-w, --wait [confirmations]", "Wait for the receipt (and this many confirmations)")
+    .option("--timeout <seconds>", "How long to wait for the receipt", "120")
+
+const parseWaitOptions = (options: { wait?: string | boolean; timeout?: string }) => {
+    const confirmations = options.wait === true ? 1 : Number(options.wait)
+    const timeout = Number(options.timeout)
+    if (!Number.isInteger(confirmations) || confirmations < 1) {
+        throw new ValidationError(`Invalid confirmation count: ${options.wait}`)
+    }
+    if (!(timeout > 0)) {
+        throw new ValidationError(`Invalid timeout: ${options.timeout}`)
+    }
+    return { confirmations, timeout: timeout * 1000 }
+}
+
+program
+    .command("eth:getTransactionReceipt")
+    .description("Get transaction receipt, with the revert reason for failed transactions")
+    .argument("<hash>", "Transaction hash")
+    .option("-w, --wait [confirmations]", "Wait until the transaction is mined (and confirmed)")
+    .option("--timeout <seconds>", "How long to wait", "120")
+    .action(async (hash, options) => {
+        try {
+            const client = getPublicClient()
+            const receipt = options.wait
+                ? await client.waitForTransactionReceipt({ hash, ...parseWaitOptions(options) })
+                : await client.getTransactionReceipt({ hash })
+            formatOutput(await summarizeReceipt(client, receipt), "status")
+            if (receipt.status !== "success") {
+                process.exitCode = EXIT_CODES.reverted
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+addWaitOptions(addSigningOptions(addGasOptions(addFeeOptions(program.command("eth:sendTransaction")))))
+    .description("Send a transaction")
+    .requiredOption("-t, --to <address>", "To address")
+    .option("-v, --value <value>", "Value in ether")
+    .option("-d, --data <data>", "Transaction data")
+    .action(async (options) => {
+        try {
+            const wait = options.wait ? parseWaitOptions(options) : undefined
+            const config = loadConfig()
+            const network = resolveNetwork(config)
+            const publicClient = getPublicClient(network)
+            await assertExpectedChain(publicClient, network)
+            const fees = await resolveFees(publicClient, options)
+
+            const account = await loadSigningAccount(config, network, options.account)
+            const client = createWalletClient({
+                account,
+                transport: getTransport(network)
+            })
+
+            const transaction = {
+                to: options.to,
+                ...(options.value && { value: parseEther(options.value) }),
+                ...(options.data && { data: options.data }),
+                ...(options.gas && { gas: BigInt(options.gas) }),
+                ...fees,
+                ...(options.nonce && { nonce: Number(options.nonce) })
+            }
+
+            const hash = await client.sendTransaction(transaction)
+            if (!wait) {
+                formatOutput({
+                    transactionHash: hash,
+                    from: account.address,
+                    ...transaction,
+                    ...(transaction.value && { 
+                        value: `${options.value} ETH (${transaction.value.toString()} wei)`
+                    })
+                }, "transactionHash")
+                return
+            }
+
+            const receipt = await publicClient.waitForTransactionReceipt({ hash, ...wait })
+            formatOutput({
+                ...(transaction.value && { value: `${options.value} ETH (${transaction.value.toString()} wei)` }),
+                ...await summarizeReceipt(publicClient, receipt),
+            }, "transactionHash")
+            if (receipt.status !== "success") {
+                process.exitCode = EXIT_CODES.reverted
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// First line of viem's short message, for one-line progress output
+const errorSummary = (error: unknown): string =>
+    ((error as BaseError).shortMessage ?? String(error)).split("\n")[0]
+
+// Event logs
+// Accepts "Transfer(address indexed from, address indexed to, uint256 value)" with or without the "event" keyword
+const parseEventSignature = (signature: string): AbiEvent => {
+    const source = signature.trim().startsWith("event ") ? signature.trim() : `event ${signature.trim()}`
+    try {
+        return parseAbiItem(source) as AbiEvent
+    } catch (error) {
+        throw new ValidationError(`Invalid event signature "${signature}": ${errorSummary(error)}`)
+    }
+}
+
+// One topic position: "null" or "*" matches anything, commas separate alternatives, addresses are left-padded
+const parseTopic = (value: string): Hex | Hex[] | null => {
+    if (value === "null" || value === "*") return null
+    const alternatives = value.split(",").map((topic) => {
+        const hex = topic.trim()
+        if (isAddress(hex)) return pad(hex.toLowerCase() as Hex)
+        if (!/^0x[0-9a-fA-F]{64}$/.test(hex)) throw new ValidationError(`Invalid topic: ${topic}`)
+        return hex.toLowerCase() as Hex
+    })
+    return alternatives.length === 1 ? alternatives[0] : alternatives
+}
+
+const parseBlockNumber = (value: string, latest: bigint): bigint => {
+    if (value === "latest") return latest
+    if (value === "earliest") return BigInt(0)
+    if (!/^\d+$/.test(value)) throw new ValidationError(`Invalid block: ${value} (use a number, "latest" or "earliest")`)
+    return BigInt(value)
+}
+
+type RawLog = { address: Address; topics: Hex[]; data: Hex; blockNumber: Hex; transactionHash: Hex; logIndex: Hex }
+
+// Queries [from, to] in chunks, halving the chunk whenever the node refuses a range as too large
+const fetchLogsChunked = async (
+    client: PublicClient,
+    filter: { address?: Address[]; topics: (Hex | Hex[] | null)[] },
+    from: bigint,
+    to: bigint,
+    chunkSize: bigint,
+    // Called in block order, with the last block the chunk covered
+    onChunk: (logs: RawLog[], end: bigint) => void
+): Promise<void> => {
+    let size = chunkSize
+    for (let start = from; start <= to;) {
+        const end = start + size - BigInt(1) < to ? start + size - BigInt(1) : to
+        let logs: RawLog[]
+        try {
+            logs = await client.request({
+                method: "eth_getLogs",
+                params: [{ ...filter, fromBlock: toHex(start), toBlock: toHex(end) }],
+            }) as unknown as RawLog[]
+        } catch (error) {
+            if (size > BigInt(1) && /range|limit|too many|exceed|too large|response size/i.test((error as Error).message)) {
+                size = size / BigInt(2)
+                continue
+            }
+            throw error
+        }
+        onChunk(logs, end)
+        start = end + BigInt(1)
+    }
+}
+
+const decodeLog = (log: RawLog, abi: Abi | undefined) => {
+    let event = ""
+    let args: unknown = ""
+    if (abi) {
+        try {
+            const decoded = decodeEventLog({ abi, data: log.data, topics: log.topics as [Hex, ...Hex[]] })
+            event = (decoded as { eventName?: string }).eventName ?? ""
+            args = decoded.args
+        } catch {
+            // Not an event the ABI knows; the raw topics and data are still shown
+        }
+    }
+    return {
+        blockNumber: hexToBigInt(log.blockNumber),
+        transactionHash: log.transactionHash,
+        logIndex: Number(log.logIndex),
+        address: getAddress(log.address),
+        event,
+        args: event ? args : { topics: log.topics, data: log.data },
+    }
+}
+
+program
+    .command("eth:getLogs")
+    .description("Query event logs, decoded with an event signature or ABI")
+    .option("-a, --address <addresses...>", "Contract address(es) to match")
+    .option("-e, --event <signature>", "Event signature, e.g. \"Transfer(address indexed,address indexed,uint256)\", or a name with --abi")
+    .option("--topic <topics...>", "Topics by position (after the event's with --event); null matches any, commas separate alternatives")
+    .option("--abi <file>", "ABI or Hardhat/Foundry artifact JSON file to decode logs with")
+    .option("--from-block <block>", "First block (number, latest or earliest)", "latest")
+    .option("--to-block <block>", "Last block (number or latest)", "latest")
+    .option("--chunk-size <blocks>", "Blocks per eth_getLogs request", "2000")
+    .option("-f, --follow", "Keep polling for new matching logs")
+    .option("--interval <seconds>", "Polling interval with --follow", "2")
+    .action(async (options) => {
+        try {
+            const chunkSize = Number(options.chunkSize)
+            const interval = Number(options.interval)
+            if (!Number.isInteger(chunkSize) || chunkSize < 1 || !(interval > 0)) {
+                throw new ValidationError("--chunk-size must be a positive integer and --interval a number of seconds")
+            }
+            if (options.follow && options.toBlock !== "latest") {
+                throw new ValidationError("--follow can't be combined with --to-block")
+            }
+            const addresses = (options.address ?? []).map((address: string) => {
+                if (!isAddress(address)) throw new ValidationError(`Invalid address: ${address}`)
+                return getAddress(address)
+            })
+
+            let abi: Abi | undefined = options.abi ? readAbiFile(options.abi) : undefined
+            let event: AbiEvent | undefined
+            if (options.event && options.event.includes("(")) {
+                event = parseEventSignature(options.event)
+                abi = [...(abi ?? []), event]
+            } else if (options.event) {
+                event = abi?.find((item): item is AbiEvent => item.type === "event" && item.name === options.event)
+                if (!event) throw new ValidationError(`No event "${options.event}" in ${options.abi ?? "the ABI (pass --abi)"}`)
+            }
+            const topics = [
+                ...(event ? [toEventSelector(event)] : []),
+                ...(options.topic ?? []).map(parseTopic),
+            ]
+            const filter = { ...(addresses.length > 0 && { address: addresses }), topics }
+
+            const client = getPublicClient()
+            const latest = await client.getBlockNumber()
+            const from = parseBlockNumber(options.fromBlock, latest)
+            const to = parseBlockNumber(options.toBlock, latest)
+            if (from > to) throw new ValidationError(`--from-block ${from} is after --to-block ${to}`)
+
+            if (!options.follow) {
+                const records: ReturnType<typeof decodeLog>[] = []
+                await fetchLogsChunked(client, filter, from, to, BigInt(chunkSize), (logs) => {
+                    records.push(...logs.map((log) => decodeLog(log, abi)))
+                })
+                formatList(records, ["Block", "Transaction", "Index", "Address", "Event", "Args"], "transactionHash")
+                return
+            }
+
+            const stream = createRecordStream(["Block", "Transaction", "Index", "Address", "Event", "Args"], "transactionHash")
+            let next = from
+            // Advancing per chunk means a failure part way never prints the same logs twice
+            const print = (logs: RawLog[], end: bigint) => {
+                logs.forEach((log) => stream(decodeLog(log, abi)))
+                next = end + BigInt(1)
+            }
+            for (;;) {
+                // Like the watch commands, a failed poll is reported and retried on the next interval
+                try {
+                    const head = await client.getBlockNumber()
+                    if (head >= next) await fetchLogsChunked(client, filter, next, head, BigInt(chunkSize), print)
+                } catch (error) {
+                    reportWatchError(error as Error)
+                }
+                await new Promise((resolve) => setTimeout(resolve, interval * 1000))
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Watch commands: subscribe over WebSocket when the profile has a ws:// URL, poll over HTTP otherwise
+const getWatchClient = async (network: ResolvedNetwork, interval: number): Promise<PublicClient> => {
+    const wsUrl = network.wsUrl ?? (/^wss?:\/\//.test(network.rpcUrl) ? network.rpcUrl : undefined)
+    if (wsUrl) {
+        const client = createPublicClient({ transport: webSocket(wsUrl, { retryCount: 1, timeout: 10000 }) })
+        try {
+            await client.getChainId()
+            return client as PublicClient
+        } catch (error) {
+            console.error(pc.yellow(`Warning: WebSocket ${wsUrl} unavailable (${errorSummary(error)}), polling over HTTP`))
+        }
+    }
+    return createPublicClient({ transport: getTransport(network), pollingInterval: interval * 1000 })
+}
+
+const parseInterval = (value: string): number => {
+    const interval = Number(value)
+    if (!(interval > 0)) throw new ValidationError(`Invalid polling interval: ${value}`)
+    return interval
+}
+
+// Transient RPC errors while watching are reported and the watch carries on
+const reportWatchError = (error: Error) => console.error(pc.yellow(`Warning: ${errorSummary(error)}`))
+
+program
+    .command("watch:blocks")
+    .description("Stream new blocks with their transaction count and gas used")
+    .option("-i, --interval <seconds>", "Polling interval without WebSocket", "1")
+    .action(async (options) => {
+        try {
+            const client = await getWatchClient(resolveNetwork(), parseInterval(options.interval))
+            const stream = createRecordStream(["Block", "Hash", "Time", "Txs", "Gas Used", "Gas %", "Base Fee (gwei)"], "number")
+            client.watchBlocks({
+                emitOnBegin: true,
+                emitMissed: true,
+                onBlock: (block) => stream({
+                    number: block.number,
+                    hash: block.hash,
+                    timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+                    transactions: block.transactions.length,
+                    gasUsed: block.gasUsed,
+                    gasPercent: block.gasLimit > 0 ? Number(block.gasUsed * BigInt(10000) / block.gasLimit) / 100 : 0,
+                    baseFeeGwei: block.baseFeePerGas != null ? formatGwei(block.baseFeePerGas) : "",
+                }),
+                onError: reportWatchError,
+            })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("watch:address")
+    .description("Stream transactions and balance/nonce changes of an address")
+    .argument("[address]", "Address to watch (defaults to the profile's default account)")
+    .option("-i, --interval <seconds>", "Polling interval without WebSocket", "1")
+    .action(async (addressArg, options) => {
+        try {
+            const network = resolveNetwork()
+            const address = getAddress(resolveAccountAddress(addressArg, network))
+            const client = await getWatchClient(network, parseInterval(options.interval))
+            const stream = createRecordStream(
+                ["Block", "Event", "Transaction", "Counterparty", "Value (ETH)", "Balance (ETH)", "Nonce"], "event")
+            let balance = await client.getBalance({ address })
+            let nonce = await client.getTransactionCount({ address })
+            const blank = { transactionHash: "", counterparty: "", value: "" }
+            stream({ blockNumber: await client.getBlockNumber(), event: "start", ...blank, balance: formatEther(balance), nonce })
+
+            let queue = Promise.resolve()
+            client.watchBlocks({
+                includeTransactions: true,
+                emitMissed: true,
+                // viem doesn't await onBlock: blocks are queued so balance and nonce deltas are computed in order,
+                // and failures are caught here instead of becoming unhandled rejections
+                onBlock: (block) => {
+                    queue = queue.then(async () => {
+                        try {
+                            for (const tx of block.transactions) {
+                                const outgoing = tx.from.toLowerCase() === address.toLowerCase()
+                                const incoming = tx.to?.toLowerCase() === address.toLowerCase()
+                                if (!outgoing && !incoming) continue
+                                stream({
+                                    blockNumber: block.number,
+                                    event: outgoing ? (incoming ? "self" : "outgoing") : "incoming",
+                                    transactionHash: tx.hash,
+                                    counterparty: outgoing ? (tx.to ? getAddress(tx.to) : "contract creation") : getAddress(tx.from),
+                                    value: formatEther(tx.value),
+                                    balance: "",
+                                    nonce: outgoing ? tx.nonce : "",
+                                })
+                            }
+                            // Also catches value moved by contracts, which never shows up as a transaction
+                            const [newBalance, newNonce] = await Promise.all([
+                                client.getBalance({ address, blockNumber: block.number as bigint }),
+                                client.getTransactionCount({ address, blockNumber: block.number as bigint }),
+                            ])
+                            if (newBalance !== balance || newNonce !== nonce) {
+                                const delta = newBalance - balance
+                                stream({
+                                    blockNumber: block.number,
+                                    event: newBalance !== balance ? "balance" : "nonce",
+                                    ...blank,
+                                    value: newBalance !== balance ? `${delta > 0 ? "+" : ""}${formatEther(delta)}` : "",
+                                    balance: formatEther(newBalance),
+                                    nonce: newNonce,
+                                })
+                                balance = newBalance
+                                nonce = newNonce
+                            }
+                        } catch (error) {
+                            reportWatchError(error as Error)
+                        }
+                    })
+                },
+                onError: reportWatchError,
+            })
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+type WatchedTxState = { status: "not found" | "pending" | "success" | "reverted"; blockNumber?: bigint; confirmations: number }
+
+program
+    .command("watch:tx")
+    .description("Follow a transaction from pending through inclusion to the requested confirmations")
+    .argument("<hash>", "Transaction hash")
+    .option("-c, --confirmations <number>", "Stop once the transaction has this many confirmations", "1")
+    .option("--timeout <seconds>", "Give up after this many seconds")
+    .option("-i, --interval <seconds>", "Polling interval without WebSocket", "1")
+    .action(async (hash, options) => {
+        try {
+            const confirmations = Number(options.confirmations)
+            if (!Number.isInteger(confirmations) || confirmations < 1) {
+                throw new ValidationError(`Invalid confirmation count: ${options.confirmations}`)
+            }
+            if (options.timeout !== undefined && !(Number(options.timeout) > 0)) {
+                throw new ValidationError(`Invalid timeout: ${options.timeout}`)
+            }
+            if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) throw new ValidationError(`Invalid transaction hash: ${hash}`)
+            const client = await getWatchClient(resolveNetwork(), parseInterval(options.interval))
+            const stream = createRecordStream(["Block", "Status", "Included In", "Confirmations"], "status")
+
+            const check = async (head: bigint): Promise<WatchedTxState> => {
+                const receipt = await client.getTransactionReceipt({ hash }).catch(() => undefined)
+                if (receipt) {
+                    return {
+                        status: receipt.status,
+                        blockNumber: receipt.blockNumber,
+                        confirmations: Number(head - receipt.blockNumber) + 1,
+                    }
+                }
+                const pending = await client.getTransaction({ hash }).catch(() => undefined)
+                return { status: pending ? "pending" : "not found", confirmations: 0 }
+            }
+
+            // Resolves when the transaction is final; each change of state is printed once
+            let last: WatchedTxState | undefined
+            const final = await new Promise<WatchedTxState>((resolve, reject) => {
+                let unwatch = () => {}
+                const timer = options.timeout !== undefined
+                    ? setTimeout(() => {
+                        unwatch()
+                        reject(new CliError(`Transaction ${hash} still ${last?.status ?? "not found"} after ${options.timeout}s`, EXIT_CODES.rpc))
+                    }, Number(options.timeout) * 1000)
+                    : undefined
+                unwatch = client.watchBlockNumber({
+                    emitOnBegin: true,
+                    emitMissed: true,
+                    onBlockNumber: async (head) => {
+                        const state = await check(head).catch((error) => {
+                            reportWatchError(error)
+                            return last
+                        })
+                        if (!state) return
+                        if (state.status !== last?.status || state.blockNumber !== last?.blockNumber
+                            || state.confirmations !== last?.confirmations) {
+                            stream({
+                                blockNumber: head,
+                                status: state.status,
+                                includedIn: state.blockNumber ?? "",
+                                confirmations: state.confirmations,
+                            })
+                        }
+                        last = state
+                        if (state.confirmations >= confirmations) {
+                            clearTimeout(timer)
+                            unwatch()
+                            resolve(state)
+                        }
+                    },
+                    onError: reportWatchError,
+                })
+            })
+            if (final.status === "reverted") {
+                process.exitCode = EXIT_CODES.reverted
+            }
+            // An open WebSocket would keep the process alive
+            process.exit()
+        } catch (error) {
+            handleError(error)
+            process.exit()
+        }
+    })
+
+// Batch transactions
+interface BatchRow {
+    to: Address
+    value?: string
+    data?: Hex
+    gas?: string
+}
+
+// One JSON line per event, so a crash loses at most the line being written
+interface JournalEntry {
+    row: number
+    to: Address
+    value?: string
+    data?: Hex
+    status: "signed" | "failed" | "confirmed" | "reverted"
+    nonce?: number
+    hash?: Hex
+    // Signed transaction, rebroadcast as-is on resume so a row is never paid twice
+    raw?: Hex
+    error?: string
+    at: string
+}
+
+// RFC 4180 fields: quoted fields may hold commas, newlines and doubled quotes. Blank lines are skipped.
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let quoted = false
+    let i = 0
+    const endRow = () => {
+        row.push(field)
+        if (row.length > 1 || row[0].trim() !== "") rows.push(row)
+        row = []
+        field = ""
+    }
+    while (i < text.length) {
+        const char = text[i]
+        if (quoted) {
+            if (char === "\"" && text[i + 1] === "\"") {
+                field += "\""
+                i++
+            } else if (char === "\"") {
+                quoted = false
+            } else {
+                field += char
+            }
+        } else if (char === "\"") {
+            quoted = true
+        } else if (char === ",") {
+            row.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++
+            endRow()
+        } else {
+            field += char
+        }
+        i++
+    }
+    if (quoted) throw new ValidationError("Unterminated quoted field")
+    if (field !== "" || row.length > 0) endRow()
+    return rows
+}
+
+const readBatchFile = (file: string): BatchRow[] => {
+    let records: Record<string, unknown>[]
+    if (file.endsWith(".json")) {
+        records = readJsonFile(file)
+        if (!Array.isArray(records)) throw new ValidationError(`${file} must contain a JSON array of transactions`)
+    } else {
+        let text: string
+        try {
+            text = fs.readFileSync(file, "utf-8")
+        } catch (error) {
+            throw new ValidationError(`Could not read ${file}: ${(error as Error).message}`)
+        }
+        let table: string[][]
+        try {
+            table = parseCsv(text)
+        } catch (error) {
+            throw new ValidationError(`${file}: ${(error as Error).message}`)
+        }
+        const [header, ...lines] = table
+        const columns = (header ?? []).map((column) => column.trim())
+        if (!columns.includes("to")) throw new ValidationError(`${file} needs a CSV header with a "to" column`)
+        records = lines.map((line, i) => {
+            if (line.length !== columns.length) {
+                throw new ValidationError(`${file} row ${i + 1}: ${line.length} field(s) where the header has ${columns.length}`)
+            }
+            return Object.fromEntries(columns.map((column, j) => [column, line[j].trim() || undefined]))
+        })
+    }
+    return records.map((record, i) => {
+        const where = `${file} row ${i + 1}`
+        const { to, value, data, gas } = record ?? {}
+        if (typeof to !== "string" || !isAddress(to)) throw new ValidationError(`${where}: invalid "to" address ${to}`)
+        if (value !== undefined && !/^\d+(\.\d+)?$/.test(String(value))) throw new ValidationError(`${where}: invalid ether value ${value}`)
+        if (data !== undefined && !/^0x([0-9a-fA-F]{2})*$/.test(String(data))) throw new ValidationError(`${where}: invalid hex data ${data}`)
+        if (gas !== undefined && !/^\d+$/.test(String(gas))) throw new ValidationError(`${where}: invalid gas limit ${gas}`)
+        return {
+            to: getAddress(to),
+            ...(value !== undefined && { value: String(value) }),
+            ...(data !== undefined && { data: data as Hex }),
+            ...(gas !== undefined && { gas: String(gas) }),
+        }
+    })
+}
+
+// Latest entry per row, after checking the journal was written for this input
+const readJournal = (file: string, rows: BatchRow[]): Map<number, JournalEntry> => {
+    const latest = new Map<number, JournalEntry>()
+    if (!fs.existsSync(file)) return latest
+    fs.readFileSync(file, "utf-8").split("\n").forEach((line, i) => {
+        if (line.trim() === "") return
+        let entry: JournalEntry
+        try {
+            entry = JSON.parse(line)
+        } catch {
+            // A torn last line is what a crash mid-write leaves behind
+            console.error(pc.yellow(`Warning: ignoring unreadable line ${i + 1} of ${file}`))
+            return
+        }
+        const row = rows[entry.row]
+        if (!row || row.to !== entry.to || row.value !== entry.value || row.data !== entry.data) {
+            throw new ValidationError(`Journal ${file} does not match the input at row ${entry.row + 1}; use another --journal`)
+        }
+        latest.set(entry.row, entry)
+    })
+    return latest
+}
+
+addSigningOptions(addFeeOptions(program.command("tx:batch")))
+    .description("Send the transactions listed in a CSV or JSON file, resuming from a journal")
+    .argument("<file>", "CSV with a to,value,data,gas header, or a JSON array of { to, value, data, gas }; value in ether")
+    .option("-c, --concurrency <number>", "Transactions in flight at once", "5")
+    .option("-j, --journal <file>", "Journal file (default: <file>.journal)")
+    .option("--timeout <seconds>", "How long to wait for each receipt", "120")
+    .action(async (file, options) => {
+        try {
+            const concurrency = Number(options.concurrency)
+            const timeout = Number(options.timeout)
+            if (!Number.isInteger(concurrency) || concurrency < 1 || !(timeout > 0)) {
+                throw new ValidationError("--concurrency must be a positive integer and --timeout a number of seconds")
+            }
+            const rows = readBatchFile(file)
+            const journalPath = options.journal ?? `${file}.journal`
+            const journal = readJournal(journalPath, rows)
+
+            const config = loadConfig()
+            const network = resolveNetwork(config)
+            const publicClient = getPublicClient(network)
+            await assertExpectedChain(publicClient, network)
+            const fees = await resolveFees(publicClient, options)
+            const account = await loadSigningAccount(config, network, options.account)
+            const client = createWalletClient({
+                account,
+                transport: getTransport(network),
+            })
+            const { format, quiet } = getOutputOptions()
+            const log = format === "table" && !quiet ? console.log : () => {}
+
+            const record = (row: number, entry: Omit<JournalEntry, "row" | "to" | "value" | "data" | "at">) => {
+                const { to, value, data } = rows[row]
+                const line: JournalEntry = { row, to, value, data, ...entry, at: new Date().toISOString() }
+                fs.appendFileSync(journalPath, JSON.stringify(line) + "\n")
+                journal.set(row, line)
+            }
+            const settle = async (row: number, entry: JournalEntry) => {
+                const receipt = await publicClient.waitForTransactionReceipt({ hash: entry.hash as Hex, timeout: timeout * 1000 })
+                if (receipt.transactionHash !== entry.hash) {
+                    // Another transaction with the same nonce was mined instead, so this row was not sent
+                    record(row, { status: "failed", nonce: entry.nonce, hash: entry.hash, error: `Replaced by ${receipt.transactionHash}` })
+                    log(pc.red(`Row ${row + 1}: replaced by ${receipt.transactionHash}`))
+                    return
+                }
+                const status = receipt.status === "success" ? "confirmed" : "reverted"
+                record(row, { status, nonce: entry.nonce, hash: entry.hash })
+                log(`Row ${row + 1}: ${status} ${entry.hash}`)
+            }
+
+            // Rows signed by an earlier run: settle them if they were mined, rebroadcast them if their nonce is still
+            // free, and only send them afresh once the node rejects the original
+            const confirmedNonce = await publicClient.getTransactionCount({ address: account.address })
+            const todo: number[] = []
+            const resumed: number[] = []
+            for (const [row] of rows.entries()) {
+                const entry = journal.get(row)
+                if (entry?.status === "confirmed" || entry?.status === "reverted") continue
+                if (!entry?.raw) {
+                    todo.push(row)
+                    continue
+                }
+                // Only a missing receipt means "not mined": after any other error the row may have been mined, so the
+                // resume stops rather than risk paying twice
+                const receipt = await publicClient.getTransactionReceipt({ hash: entry.hash as Hex }).catch((error) => {
+                    if (error instanceof TransactionReceiptNotFoundError) return undefined
+                    log(pc.red(`Row ${row + 1}: could not look up ${entry.hash}; nothing new was sent, run again to resume`))
+                    throw error
+                })
+                if (receipt) {
+                    record(row, { status: receipt.status === "success" ? "confirmed" : "reverted", nonce: entry.nonce, hash: entry.hash })
+                } else if ((entry.nonce as number) < confirmedNonce) {
+                    // Another transaction took the nonce, so this one can never be mined
+                    todo.push(row)
+                } else {
+                    try {
+                        await publicClient.sendRawTransaction({ serializedTransaction: entry.raw })
+                        resumed.push(row)
+                    } catch (error) {
+                        // Nodes word "already in the pool" differently, so ask for the transaction instead
+                        const known = await publicClient.getTransaction({ hash: entry.hash as Hex }).then(() => true, (lookupError) => {
+                            if (lookupError instanceof TransactionNotFoundError) return false
+                            log(pc.red(`Row ${row + 1}: could not look up ${entry.hash}; nothing new was sent, run again to resume`))
+                            throw lookupError
+                        })
+                        if (known) {
+                            resumed.push(row)
+                        } else {
+                            log(pc.yellow(`Row ${row + 1}: node rejected the journaled transaction (${errorSummary(error)}), sending again`))
+                            todo.push(row)
+                        }
+                    }
+                }
+            }
+            const skipped = rows.length - todo.length - resumed.length
+            if (skipped > 0 || resumed.length > 0) {
+                log(`Resuming from ${journalPath}: ${skipped} row(s) done, ${resumed.length} awaiting inclusion, ${todo.length} to send`)
+            }
+
+            const nonceManager = new NonceManager()
+            await nonceManager.initialize(publicClient, [account], "pending")
+            resumed.forEach((row) => nonceManager.skipTo(account.address, (journal.get(row)?.nonce as number) + 1))
+            // A rejected broadcast leaves a nonce gap that later transactions can't pass, so nothing new is sent after one.
+            // Nonces are taken and broadcast one row at a time, in order, so no later nonce is out when that happens.
+            let halted = false
+            let broadcasting: Promise<unknown> = Promise.resolve()
+
+            const sendRow = async (row: number) => {
+                const { to, value, data, gas } = rows[row]
+                let request
+                try {
+                    // Gas and fees are settled before taking a nonce so that a row failing estimation leaves no gap
+                    request = await client.prepareTransactionRequest({
+                        to,
+                        chain: null,
+                        ...(value && { value: parseEther(value) }),
+                        ...(data && { data }),
+                        ...(gas && { gas: BigInt(gas) }),
+                        ...fees,
+                        parameters: ["fees", "gas", "chainId", "type"],
+                    })
+                } catch (error) {
+                    record(row, { status: "failed", error: errorSummary(error) })
+                    log(pc.red(`Row ${row + 1}: failed ${errorSummary(error)}`))
+                    return
+                }
+                const broadcast = broadcasting.then(async (): Promise<boolean> => {
+                    if (halted) return false
+                    const nonce = await nonceManager.getNextNonce(account.address)
+                    const raw = await client.signTransaction({ ...request, nonce } as Parameters<typeof client.signTransaction>[0])
+                    const hash = keccak256(raw)
+                    record(row, { status: "signed", nonce, hash, raw })
+                    try {
+                        await publicClient.sendRawTransaction({ serializedTransaction: raw })
+                    } catch (error) {
+                        halted = true
+                        record(row, { status: "failed", nonce, hash, raw, error: errorSummary(error) })
+                        log(pc.red(`Row ${row + 1}: broadcast failed ${errorSummary(error)}`))
+                        return false
+                    }
+                    log(`Row ${row + 1}: sent ${hash} (nonce ${nonce})`)
+                    return true
+                })
+                // A signing error halts too: its nonce was taken but never used
+                broadcasting = broadcast.catch(() => {
+                    halted = true
+                })
+                if (await broadcast) await settle(row, journal.get(row) as JournalEntry)
+            }
+
+            const queue: (() => Promise<void>)[] = [
+                ...resumed.map((row) => () => settle(row, journal.get(row) as JournalEntry)),
+                ...todo.map((row) => () => sendRow(row)),
+            ]
+            const worker = async () => {
+                for (let task = queue.shift(); task; task = queue.shift()) {
+                    // A receipt timeout leaves the row "signed" in the journal for the next run
+                    await task().catch((error) => log(pc.yellow(errorSummary(error))))
+                }
+            }
+            await Promise.all(Array(concurrency).fill(0).map(() => worker()))
+
+            const counts = { confirmed: 0, reverted: 0, failed: 0, pending: 0 }
+            rows.forEach((_, row) => {
+                const status = journal.get(row)?.status
+                if (status === "confirmed" || status === "reverted" || status === "failed") counts[status]++
+                else counts.pending++
+            })
+            formatOutput({ file, journal: journalPath, rows: rows.length, alreadyDone: skipped, ...counts }, "confirmed")
+            if (counts.failed > 0 || counts.pending > 0) {
+                console.error(pc.yellow(`${counts.failed + counts.pending} row(s) not confirmed; rerun the same command to resume`))
+                process.exitCode = EXIT_CODES.error
+            } else if (counts.reverted > 0) {
+                process.exitCode = EXIT_CODES.reverted
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Offline signing: every field comes from flags or a JSON file, nothing from the node
+const TX_FIELDS = ["to", "value", "data", "gas", "nonce", "chainId", "gasPrice", "maxFee", "priorityFee", "accessList"] as const
+
+const readHexTransaction = (raw: string): Hex => {
+    const hex = raw.trim()
+    if (!/^0x([0-9a-fA-F]{2})+$/.test(hex)) throw new ValidationError("Expected a 0x-prefixed raw transaction")
+    return hex as Hex
+}
+
+// Fields of a signed (or unsigned) serialized transaction, with the sender recovered from the signature
+const describeTransaction = async (raw: Hex) => {
+    let transaction: ReturnType<typeof parseTransaction>
+    try {
+        transaction = parseTransaction(raw)
+    } catch (error) {
+        throw new ValidationError(`Could not decode transaction: ${errorSummary(error)}`)
+    }
+    const signed = transaction.r !== undefined && transaction.s !== undefined
+    const from = signed ? await recoverTransactionAddress({ serializedTransaction: raw as TransactionSerialized }).catch(() => undefined) : undefined
+    return {
+        hash: keccak256(raw),
+        type: transaction.type,
+        from: from ?? (signed ? "invalid signature" : "unsigned"),
+        to: transaction.to ?? "contract creation",
+        value: `${formatEther(transaction.value ?? BigInt(0))} ETH`,
+        nonce: transaction.nonce ?? 0,
+        gas: transaction.gas,
+        ...(transaction.gasPrice !== undefined && { gasPrice: `${formatGwei(transaction.gasPrice)} gwei` }),
+        ...(transaction.maxFeePerGas !== undefined && { maxFeePerGas: `${formatGwei(transaction.maxFeePerGas)} gwei` }),
+        ...(transaction.maxPriorityFeePerGas !== undefined && {
+            maxPriorityFeePerGas: `${formatGwei(transaction.maxPriorityFeePerGas)} gwei`,
+        }),
+        chainId: transaction.chainId ?? "none (pre-EIP-155)",
+        data: transaction.data ?? "0x",
+        ...("accessList" in transaction && transaction.accessList && { accessList: JSON.stringify(transaction.accessList) }),
+    }
+}
+
+addSigningOptions(program.command("tx:sign"))
+    .description("Sign a transaction offline and print the raw transaction")
+    .option("-f, --file <file>", `JSON file with any of ${TX_FIELDS.join(", ")} (flags take precedence)`)
+    .option("-t, --to <address>", "To address (omit to deploy --data)")
+    .option("-v, --value <value>", "Value in ether")
+    .option("-d, --data <data>", "Transaction data")
+    .option("-g, --gas <limit>", "Gas limit")
+    .option("-n, --nonce <nonce>", "Nonce value")
+    .option("--chain-id <id>", "Chain ID (defaults to the profile's)")
+    .option("-p, --gasPrice <price>", "Gas price in gwei (legacy or EIP-2930 transaction)")
+    .option("--max-fee <gwei>", "Max fee per gas in gwei (EIP-1559 transaction)")
+    .option("--priority-fee <gwei>", "Max priority fee per gas in gwei (EIP-1559 transaction)")
+    .option("--access-list <json>", "Access list as JSON, e.g. '[{\"address\":\"0x...\",\"storageKeys\":[]}]'")
+    .action(async (options) => {
+        try {
+            const fromFile = options.file ? readJsonFile(options.file) : {}
+            if (typeof fromFile !== "object" || fromFile === null || Array.isArray(fromFile)) {
+                throw new ValidationError(`${options.file} must contain a JSON object`)
+            }
+            const unknownField = Object.keys(fromFile).find((key) => !(TX_FIELDS as readonly string[]).includes(key))
+            if (unknownField) throw new ValidationError(`Unknown field "${unknownField}" in ${options.file}`)
+            const fields: Record<string, any> = { ...fromFile }
+            TX_FIELDS.forEach((field) => {
+                if (options[field] !== undefined) fields[field] = options[field]
+            })
+
+            const config = loadConfig()
+            const network = resolveNetwork(config)
+            const integer = (name: string, value: unknown): number => {
+                const number = Number(value)
+                if (value === undefined || !Number.isSafeInteger(number) || number < 0) {
+                    throw new ValidationError(`${name} must be a non-negative integer${value === undefined ? " (required offline)" : ""}`)
+                }
+                return number
+            }
+            if (fields.to !== undefined && !isAddress(String(fields.to))) throw new ValidationError(`Invalid address: ${fields.to}`)
+            if (fields.to === undefined && !fields.data) throw new ValidationError("Either --to or --data (to deploy) is required")
+            if (fields.gasPrice !== undefined && fields.maxFee !== undefined) {
+                throw new ValidationError("Use --gasPrice or --max-fee/--priority-fee, not both")
+            }
+            if (fields.gasPrice === undefined && (fields.maxFee === undefined || fields.priorityFee === undefined)) {
+                throw new ValidationError("A fee is required offline: --gasPrice, or --max-fee with --priority-fee")
+            }
+            let accessList = fields.accessList
+            if (typeof accessList === "string") {
+                try {
+                    accessList = JSON.parse(accessList)
+                } catch {
+                    throw new ValidationError(`Invalid JSON for the access list: ${accessList}`)
+                }
+            }
+
+            const chainId = integer("chainId", fields.chainId ?? network.chainId)
+            const base = {
+                chainId,
+                nonce: integer("nonce", fields.nonce),
+                gas: BigInt(integer("gas", fields.gas)),
+                ...(fields.to !== undefined && { to: getAddress(String(fields.to)) }),
+                ...(fields.value !== undefined && { value: parseEther(String(fields.value)) }),
+                ...(fields.data !== undefined && { data: fields.data as Hex }),
+                ...(accessList !== undefined && { accessList }),
+            }
+            const transaction: TransactionSerializable = fields.maxFee !== undefined
+                ? {
+                    ...base,
+                    type: "eip1559",
+                    maxFeePerGas: parseGwei(String(fields.maxFee)),
+                    maxPriorityFeePerGas: parseGwei(String(fields.priorityFee)),
+                }
+                : { ...base, type: accessList ? "eip2930" : "legacy", gasPrice: parseGwei(String(fields.gasPrice)) }
+
+            const account = await loadSigningAccount(config, network, options.account)
+            const raw = await account.signTransaction(transaction)
+            formatOutput({ rawTransaction: raw, ...await describeTransaction(raw) }, "rawTransaction")
+            if (chainId !== network.chainId && network.chainId !== undefined) {
+                console.error(pc.yellow(`Warning: chain ID ${chainId} differs from profile "${network.name}" (${network.chainId})`))
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+addWaitOptions(program.command("tx:broadcast"))
+    .description("Submit a signed raw transaction")
+    .argument("<rawTx>", "Signed transaction as 0x-prefixed hex")
+    .action(async (rawTx, options) => {
+        try {
+            const wait = options.wait ? parseWaitOptions(options) : undefined
+            const serializedTransaction = readHexTransaction(rawTx)
+            const { chainId } = await describeTransaction(serializedTransaction)
+            const client = getPublicClient()
+            const nodeChainId = await client.getChainId()
+            if (typeof chainId === "number" && chainId !== nodeChainId) {
+                throw new ValidationError(`Transaction is for chain ${chainId} but the node is on chain ${nodeChainId}`)
+            }
+
+            const hash = await client.sendRawTransaction({ serializedTransaction })
+            if (!wait) {
+                formatOutput({ transactionHash: hash }, "transactionHash")
+                return
+            }
+            const receipt = await client.waitForTransactionReceipt({ hash, ...wait })
+            formatOutput(await summarizeReceipt(client, receipt), "transactionHash")
+            if (receipt.status !== "success") {
+                process.exitCode = EXIT_CODES.reverted
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("tx:decode")
+    .description("Decode a raw legacy, EIP-2930 or EIP-1559 transaction without touching the network")
+    .argument("<rawTx>", "Raw transaction as 0x-prefixed hex")
+    .action(async (rawTx) => {
+        try {
+            formatOutput(await describeTransaction(readHexTransaction(rawTx)), "hash")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Transaction explanations
+// Common functions and events, for decoding transactions to contracts we have no ABI for
+const KNOWN_SIGNATURES = parseAbi([
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function increaseAllowance(address spender, uint256 addedValue) returns (bool)",
+    "function decreaseAllowance(address spender, uint256 subtractedValue) returns (bool)",
+    "function mint(address to, uint256 amount)",
+    "function burn(uint256 amount)",
+    "function burnFrom(address account, uint256 amount)",
+    "function safeTransferFrom(address from, address to, uint256 tokenId)",
+    "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+    "function setApprovalForAll(address operator, bool approved)",
+    "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+    "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+    "function deposit() payable",
+    "function withdraw(uint256 amount)",
+    "function transferOwnership(address newOwner)",
+    "function renounceOwnership()",
+    "function multicall(bytes[] data) returns (bytes[] results)",
+    "function aggregate((address target, bytes callData)[] calls) returns (uint256 blockNumber, bytes[] returnData)",
+    "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+    "function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+    "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable returns (uint256[] amounts)",
+    "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline) returns (uint256[] amounts)",
+    "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256 amountA, uint256 amountB, uint256 liquidity)",
+    "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) returns (uint256 amountA, uint256 amountB)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
+    "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+    "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+    "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+    "event Deposit(address indexed dst, uint256 wad)",
+    "event Withdrawal(address indexed src, uint256 wad)",
+    "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+    "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+    "event Sync(uint112 reserve0, uint112 reserve1)",
+])
+// ERC-721 Transfer and Approval share the ERC-20 topics but also index the token ID, so they need their own ABI
+const KNOWN_ERC721_EVENTS = parseAbi([
+    "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+    "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+])
+
+// The supplied ABI first, then the built-in signatures
+const decodeInput = (input: Hex, abis: Abi[]): { function: string; args: Record<string, unknown> } | undefined => {
+    if (input.length < 10) return undefined
+    const selector = input.slice(0, 10).toLowerCase()
+    for (const abi of abis) {
+        const item = abi.find((entry): entry is AbiFunction => entry.type === "function" && toFunctionSelector(entry) === selector)
+        if (!item) continue
+        try {
+            const { args } = decodeFunctionData({ abi: [item], data: input })
+            return { function: toFunctionSignature(item), args: namedValues(item.inputs, args ?? [], "arg") }
+        } catch {
+            // Same selector, different parameters; try the next source
+        }
+    }
+    return undefined
+}
+
+const decodeReceiptLog = (log: { topics: Hex[]; data: Hex }, abis: Abi[]): { event: string; args: unknown } | undefined => {
+    for (const abi of abis) {
+        try {
+            const decoded = decodeEventLog({ abi, data: log.data, topics: log.topics as [Hex, ...Hex[]], strict: true })
+            return { event: (decoded as { eventName?: string }).eventName ?? "", args: decoded.args }
+        } catch {
+            // Unknown here, or known with other indexed arguments
+        }
+    }
+    return undefined
+}
+
+program
+    .command("tx:explain")
+    .description("Explain a transaction: decoded call and events, value and fees in SHM, and the revert reason if it failed")
+    .argument("<hash>", "Transaction hash")
+    .option("--abi <file>", "ABI or Hardhat/Foundry artifact of the called contract (the built-in signatures are used otherwise)")
+    .action(async (hash: string, options) => {
+        try {
+            if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) throw new ValidationError(`Invalid transaction hash: ${hash}`)
+            const abis = [...(options.abi ? [readAbiFile(options.abi)] : []), KNOWN_SIGNATURES, KNOWN_ERC721_EVENTS]
+            const client = getPublicClient()
+            const tx = await client.getTransaction({ hash: hash as Hex })
+            const receipt = await client.getTransactionReceipt({ hash: hash as Hex }).catch(() => undefined)
+            const block = tx.blockNumber !== null ? await client.getBlock({ blockNumber: tx.blockNumber }) : undefined
+
+            const call = tx.to && tx.input !== "0x" ? decodeInput(tx.input, abis) : undefined
+            const status = !receipt ? "pending" : receipt.status === "success" ? "success" : "reverted"
+            const summary = {
+                hash: tx.hash,
+                status,
+                ...(status === "reverted" && receipt && {
+                    revertReason: await getRevertReason(client, receipt, [
+                        ...abis.flatMap((abi) => abi.filter((item) => item.type === "error")),
+                        ...ERC20_ABI.filter((item) => item.type === "error"),
+                        ...ERC721_ABI.filter((item) => item.type === "error"),
+                    ]),
+                }),
+                blockNumber: tx.blockNumber ?? "",
+                timestamp: block ? new Date(Number(block.timestamp) * 1000).toISOString() : "",
+                from: tx.from,
+                to: tx.to ?? `(contract creation${receipt?.contractAddress ? ` of ${receipt.contractAddress}` : ""})`,
+                value: `${formatEther(tx.value)} SHM`,
+                nonce: tx.nonce,
+                type: tx.type,
+                ...(tx.to && tx.input !== "0x" && {
+                    function: call?.function ?? `unknown (selector ${tx.input.slice(0, 10)})`,
+                    ...(call && { args: call.args }),
+                }),
+                gasLimit: tx.gas,
+                ...(receipt && {
+                    // Some system transactions report a gas limit of 0
+                    gasUsed: `${receipt.gasUsed} (${tx.gas > BigInt(0) ? `${(Number(receipt.gasUsed * BigInt(10000) / tx.gas) / 100).toFixed(2)}%` : "n/a"})`,
+                    gasPrice: `${formatGwei(receipt.effectiveGasPrice)} gwei`,
+                    fee: `${formatEther(receipt.gasUsed * receipt.effectiveGasPrice)} SHM`,
+                }),
+                ...(!receipt && tx.maxFeePerGas !== undefined && { maxFeePerGas: `${formatGwei(tx.maxFeePerGas)} gwei` }),
+                ...(!receipt && tx.gasPrice !== undefined && tx.maxFeePerGas === undefined && { gasPrice: `${formatGwei(tx.gasPrice)} gwei` }),
+            }
+            const events = (receipt?.logs ?? []).map((log) => {
+                const decoded = decodeReceiptLog(log, abis)
+                return {
+                    logIndex: log.logIndex,
+                    address: getAddress(log.address),
+                    event: decoded?.event ?? "unknown",
+                    args: decoded ? decoded.args : { topics: log.topics, data: log.data },
+                }
+            })
+
+            const { format, quiet } = getOutputOptions()
+            if (format === "table" && !quiet) {
+                formatOutput(summary)
+                if (events.length > 0) formatList(events, ["Log", "Address", "Event", "Arguments"])
+            } else {
+                formatOutput({ ...summary, events }, "status")
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Account history
+// Blocks this deep are no longer expected to change, so they may be cached
+const CACHE_CONFIRMATIONS = 12
+
+// Just what a history scan needs from a block, to keep the cache small
+interface CachedBlock {
+    number: string
+    timestamp: string
+    transactions: { hash: Hex; from: Address; to: Address | null; value: string; selector: string }[]
+}
+
+interface HistoryEntry {
+    blockNumber: string
+    timestamp: string
+    direction: "in" | "out" | "self" | "create"
+    hash: Hex
+    from: Address
+    to: Address | ""
+    value: string
+    fee: string
+    status: string
+    method: string
+}
+
+type HistoryJournalLine =
+    | { type: "scan"; address: Address; chainId: number; fromBlock: string }
+    | { type: "progress"; block: string }
+    | ({ type: "tx" } & HistoryEntry)
+
+// One JSON line per block in ~/.shardeum-cli/cache/blocks-<chainId>.jsonl
+const loadBlockCache = (chainId: number): { blocks: Map<string, CachedBlock>; append: (block: CachedBlock) => void } => {
+    const file = path.join(CACHE_DIR, `blocks-${chainId}.jsonl`)
+    const blocks = new Map<string, CachedBlock>()
+    if (fs.existsSync(file)) {
+        for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+            try {
+                const block: CachedBlock = JSON.parse(line)
+                blocks.set(block.number, block)
+            } catch {
+                // Empty or torn line
+            }
+        }
+    }
+    return {
+        blocks,
+        append: (block) => {
+            fs.mkdirSync(CACHE_DIR, { recursive: true })
+            fs.appendFileSync(file, JSON.stringify(block) + "\n")
+            blocks.set(block.number, block)
+        },
+    }
+}
+
+const readHistoryJournal = (file: string, address: Address, chainId: number) => {
+    // Keyed by hash: a window whose append was cut short is scanned and recorded again on resume
+    const found = new Map<Hex, HistoryEntry>()
+    let header: { fromBlock: bigint } | undefined
+    let processed: bigint | undefined
+    if (!fs.existsSync(file)) return { header, processed, entries: [...found.values()] }
+    fs.readFileSync(file, "utf-8").split("\n").forEach((text, i) => {
+        if (text.trim() === "") return
+        let line: HistoryJournalLine
+        try {
+            line = JSON.parse(text)
+        } catch {
+            console.error(pc.yellow(`Warning: ignoring unreadable line ${i + 1} of ${file}`))
+            return
+        }
+        if (line.type === "scan") {
+            if (line.address !== address || line.chainId !== chainId) {
+                throw new ValidationError(`Journal ${file} belongs to a scan of ${line.address} on chain ${line.chainId}; use another --journal`)
+            }
+            header = { fromBlock: BigInt(line.fromBlock) }
+        } else if (line.type === "progress") {
+            processed = BigInt(line.block)
+        } else {
+            const { type: _type, ...entry } = line
+            found.set(entry.hash, entry)
+        }
+    })
+    return { header, processed, entries: [...found.values()] }
+}
+
+const methodName = (selector: string): string => {
+    if (selector === "") return ""
+    const item = (KNOWN_SIGNATURES as Abi).find((entry): entry is AbiFunction => entry.type === "function" && toFunctionSelector(entry) === selector)
+    return item ? item.name : selector
+}
+
+program
+    .command("account:history")
+    .description("Scan blocks for an address's incoming and outgoing transactions and contract creations")
+    .argument("[address]", "Address (defaults to the profile's default account)")
+    .option("--from-block <block>", "First block to scan (default: 1000 blocks before --to-block)")
+    .option("--to-block <block>", "Last block to scan (number or latest)", "latest")
+    .option("-c, --concurrency <number>", "Blocks fetched at once", "5")
+    .option("-j, --journal <file>", "Record progress and findings here, and resume from it when it exists")
+    .option("--no-cache", "Don't read or write the local block cache")
+    .action(async (addressArg, options) => {
+        try {
+            const concurrency = Number(options.concurrency)
+            if (!Number.isInteger(concurrency) || concurrency < 1) throw new ValidationError(`Invalid concurrency: ${options.concurrency}`)
+            const network = resolveNetwork()
+            const address = getAddress(resolveAccountAddress(addressArg, network))
+            const client = getPublicClient(network)
+            const [chainId, latest] = await Promise.all([client.getChainId(), client.getBlockNumber()])
+            const toBlock = parseBlockNumber(options.toBlock, latest)
+            if (toBlock > latest) throw new ValidationError(`--to-block ${toBlock} is beyond the latest block ${latest}`)
+
+            const journal = options.journal ? readHistoryJournal(options.journal, address, chainId) : undefined
+            const fromBlock = journal?.header?.fromBlock
+                ?? (options.fromBlock !== undefined
+                    ? parseBlockNumber(options.fromBlock, latest)
+                    : toBlock >= BigInt(1000) ? toBlock - BigInt(999) : BigInt(0))
+            if (fromBlock > toBlock) throw new ValidationError(`--from-block ${fromBlock} is after --to-block ${toBlock}`)
+            if (journal?.header && options.fromBlock !== undefined && parseBlockNumber(options.fromBlock, latest) !== journal.header.fromBlock) {
+                throw new ValidationError(`Journal ${options.journal} started at block ${journal.header.fromBlock}, not ${options.fromBlock}; use another --journal or delete it`)
+            }
+            // One append per call, so a window's findings and its progress land together
+            const record = (...lines: HistoryJournalLine[]) => {
+                if (options.journal) fs.appendFileSync(options.journal, lines.map((line) => JSON.stringify(line) + "\n").join(""))
+            }
+            if (journal && !journal.header) record({ type: "scan", address, chainId, fromBlock: fromBlock.toString() })
+
+            const { format, quiet } = getOutputOptions()
+            const log = format === "table" && !quiet ? console.error : () => {}
+            const entries = journal?.entries ?? []
+            const start = journal?.processed !== undefined ? journal.processed + BigInt(1) : fromBlock
+            if (journal?.processed !== undefined) {
+                log(`Resuming from ${options.journal}: blocks ${fromBlock}-${journal.processed} done, ${entries.length} transaction(s) found`)
+            }
+
+            const cache = options.cache ? loadBlockCache(chainId) : undefined
+            const getCachedBlock = async (number: bigint): Promise<CachedBlock> => {
+                const cached = cache?.blocks.get(number.toString())
+                if (cached) return cached
+                const block = await client.getBlock({ blockNumber: number, includeTransactions: true })
+                const summary: CachedBlock = {
+                    number: number.toString(),
+                    timestamp: block.timestamp.toString(),
+                    transactions: block.transactions.map((tx) => ({
+                        hash: tx.hash,
+                        from: getAddress(tx.from),
+                        to: tx.to ? getAddress(tx.to) : null,
+                        value: tx.value.toString(),
+                        selector: tx.input.length >= 10 ? tx.input.slice(0, 10) : "",
+                    })),
+                }
+                if (cache && latest - number >= BigInt(CACHE_CONFIRMATIONS)) cache.append(summary)
+                return summary
+            }
+
+            // Windows of `concurrency` blocks, in order, so the journal's progress is always a contiguous prefix
+            for (let windowStart = start; windowStart <= toBlock; windowStart += BigInt(concurrency)) {
+                const numbers: bigint[] = []
+                for (let n = windowStart; n <= toBlock && n < windowStart + BigInt(concurrency); n++) numbers.push(n)
+                const blocks = await Promise.all(numbers.map(getCachedBlock))
+                const matches = blocks.flatMap((block) => block.transactions
+                    .filter((tx) => tx.from === address || tx.to === address)
+                    .map((tx) => ({ block, tx })))
+                const found = await Promise.all(matches.map(async ({ block, tx }): Promise<HistoryEntry> => {
+                    const receipt = await client.getTransactionReceipt({ hash: tx.hash })
+                    const outgoing = tx.from === address
+                    const direction = tx.to === null ? "create" : !outgoing ? "in" : tx.to === address ? "self" : "out"
+                    return {
+                        blockNumber: block.number,
+                        timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+                        direction,
+                        hash: tx.hash,
+                        from: tx.from,
+                        to: tx.to ?? (receipt.contractAddress ? getAddress(receipt.contractAddress) : ""),
+                        value: formatEther(BigInt(tx.value)),
+                        // Only the sender pays for gas
+                        fee: outgoing ? formatEther(receipt.gasUsed * receipt.effectiveGasPrice) : "",
+                        status: receipt.status,
+                        method: tx.to === null ? "" : methodName(tx.selector),
+                    }
+                }))
+                entries.push(...found)
+                const last = numbers[numbers.length - 1]
+                record(...found.map((entry): HistoryJournalLine => ({ type: "tx", ...entry })), { type: "progress", block: last.toString() })
+                if (numbers.some((n) => n > fromBlock && n % BigInt(1000) === BigInt(0))) {
+                    log(`Scanned up to block ${last} of ${toBlock}, ${entries.length} transaction(s) found`)
+                }
+            }
+
+            formatList(entries, ["Block", "Time", "Direction", "Hash", "From", "To", "Value (SHM)", "Fee (SHM)", "Status", "Method"], "hash")
+            if (format === "table" && !quiet) {
+                const sum = (items: HistoryEntry[], field: "value" | "fee") => formatEther(items
+                    .reduce((total, entry) => total + (entry[field] ? parseEther(entry[field]) : BigInt(0)), BigInt(0)))
+                const succeeded = (...directions: HistoryEntry["direction"][]) =>
+                    entries.filter((entry) => directions.includes(entry.direction) && entry.status === "success")
+                formatOutput({
+                    address,
+                    blocks: `${fromBlock}-${toBlock}`,
+                    transactions: entries.length,
+                    received: `${sum(succeeded("in"), "value")} SHM`,
+                    sent: `${sum(succeeded("out", "create"), "value")} SHM`,
+                    fees: `${sum(entries, "fee")} SHM`,
+                })
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Contract commands
+// Accepts "balanceOf(address)", "balanceOf(address)(uint256)", "balanceOf(address) returns (uint256)"
+// or a full "function ..." declaration
+const parseFunctionSignature = (signature: string, stateMutability: "view" | "nonpayable"): AbiFunction => {
+    const trimmed = signature.trim()
+    let source = trimmed
+    if (!trimmed.startsWith("function ")) {
+        const open = trimmed.indexOf("(")
+        let depth = 0
+        let close = -1
+        for (let i = open; open >= 0 && i < trimmed.length; i++) {
+            if (trimmed[i] === "(") depth++
+            if (trimmed[i] === ")" && --depth === 0) {
+                close = i
+                break
+            }
+        }
+        if (close < 0) {
+            throw new ValidationError(`Invalid function signature "${signature}"`)
+        }
+        const outputs = trimmed.slice(close + 1).trim().replace(/^returns\s*/, "")
+        const mutability = stateMutability === "view" ? " view" : ""
+        source = `function ${trimmed.slice(0, close + 1)}${mutability}${outputs ? ` returns ${outputs}` : ""}`
+    }
+    try {
+        const item = parseAbiItem(source)
+        if (item.type !== "function") throw new Error("not a function")
+        return item
+    } catch {
+        throw new ValidationError(`Invalid function signature "${signature}"`)
+    }
+}
+
+interface ContractArtifact {
+    abi: Abi
+    bytecode?: Hex
+    contractName?: string
+}
+
+const readJsonFile = (file: string): any => {
+    try {
+        return JSON.parse(fs.readFileSync(file, "utf-8"))
+    } catch (error) {
+        throw new ValidationError(`Could not read ${file}: ${(error as Error).message}`)
+    }
+}
+
+const normalizeBytecode = (bytecode: string, source: string): Hex => {
+    const hex = bytecode.trim().replace(/^0x/i, "")
+    if (hex.includes("__")) {
+        throw new ValidationError(`Bytecode in ${source} has unlinked library references`)
+    }
+    if (!/^([0-9a-fA-F]{2})+$/.test(hex)) {
+        throw new ValidationError(`No valid bytecode in ${source}`)
+    }
+    return `0x${hex}`
+}
+
+// Plain ABI arrays as well as Hardhat artifacts ({ abi, bytecode }) and Foundry artifacts ({ abi, bytecode: { object } })
+const readArtifact = (file: string): ContractArtifact => {
+    const json = readJsonFile(file)
+    const abi = Array.isArray(json) ? json : json?.abi
+    if (!Array.isArray(abi)) {
+        throw new ValidationError(`No ABI found in ${file}`)
+    }
+    const bytecode = typeof json?.bytecode === "string" ? json.bytecode : json?.bytecode?.object
+    return {
+        abi,
+        ...(bytecode && bytecode !== "0x" && { bytecode: normalizeBytecode(bytecode, file) }),
+        contractName: json?.contractName ?? path.basename(file).replace(/\.json$/, ""),
+    }
+}
+
+const readAbiFile = (file: string): Abi => readArtifact(file).abi
+
+const selectAbiFunction = (abi: Abi, nameOrSignature: string, argCount: number): AbiFunction => {
+    const functions = abi.filter((item): item is AbiFunction => item.type === "function")
+    const wanted = nameOrSignature.replace(/\s+/g, "")
+    const candidates = wanted.includes("(")
+        ? functions.filter((item) => toFunctionSignature(item) === wanted)
+        : functions.filter((item) => item.name === wanted && item.inputs.length === argCount)
+    if (candidates.length === 0) {
+        throw new ValidationError(`No function "${nameOrSignature}" taking ${argCount} argument(s) in the ABI`)
+    }
+    if (candidates.length > 1) {
+        throw new ValidationError(
+            `"${nameOrSignature}" is overloaded, use the full signature: ${candidates.map((item) => toFunctionSignature(item)).join(", ")}`
+        )
+    }
+    return candidates[0]
+}
+
+// Converts a command-line string (or a JSON value inside an array/tuple) to what viem expects for the ABI type
+const parseAbiArgument = (param: AbiParameter, raw: unknown): unknown => {
+    const { type } = param
+    // Errors name the argument as well as its type, e.g. "amount (uint256)"
+    const label = param.name ? `${param.name} (${type})` : type
+    if (raw === undefined) throw new ValidationError(`Missing value for ${label}`)
+    const arrayMatch = type.match(/^(.*)\[(\d*)\]$/)
+    if (arrayMatch || type === "tuple") {
+        const value = typeof raw === "string" ? parseJsonArgument(param, raw) : raw
+        if (arrayMatch) {
+            if (!Array.isArray(value)) throw new ValidationError(`Expected a JSON array for ${label}`)
+            return value.map((element) => parseAbiArgument({ ...param, type: arrayMatch[1] }, element))
+        }
+        const components = (param as { components: readonly AbiParameter[] }).components
+        if (Array.isArray(value)) {
+            if (value.length !== components.length) {
+                throw new ValidationError(`Expected ${components.length} element(s) for ${label}, got ${value.length}`)
+            }
+            return value.map((element, i) => parseAbiArgument(components[i], element))
+        }
+        if (typeof value !== "object" || value === null) throw new ValidationError(`Expected a JSON array or object for ${label}`)
+        return Object.fromEntries(components.map((component) =>
+            [component.name, parseAbiArgument(component, (value as Record<string, unknown>)[component.name ?? ""])]))
+    }
+    const text = String(raw)
+    if (/^u?int\d*$/.test(type)) {
+        // BigInt("") is 0, so an empty value would otherwise be sent as zero
+        if (text.trim() === "") throw new ValidationError(`Empty value for ${label}`)
+        try {
+            return BigInt(text)
+        } catch {
+            throw new ValidationError(`Invalid value "${text}" for ${label}`)
+        }
+    }
+    if (type === "bool") {
+        if (text !== "true" && text !== "false") throw new ValidationError(`Invalid value "${text}" for ${label}`)
+        return text === "true"
+    }
+    if (type === "address" && !isAddress(text)) {
+        throw new ValidationError(`Invalid address "${text}" for ${label}`)
+    }
+    if (type.startsWith("bytes") && !/^0x([0-9a-fA-F]{2})*$/.test(text)) {
+        throw new ValidationError(`Invalid value "${text}" for ${label}: expected 0x-prefixed hex`)
+    }
+    return text
+}
+
+const parseJsonArgument = (param: AbiParameter, raw: string): unknown => {
+    try {
+        return JSON.parse(raw)
+    } catch {
+        throw new ValidationError(`Invalid JSON for ${param.type} argument: ${raw}`)
+    }
+}
+
+// The function to call plus any custom errors from the ABI file so reverts can be decoded
+const resolveContractFunction = (
+    nameOrSignature: string,
+    rawArgs: unknown[],
+    abiFile: string | undefined,
+    stateMutability: "view" | "nonpayable"
+): { abi: Abi; item: AbiFunction; args: unknown[] } => {
+    let abi: Abi
+    let item: AbiFunction
+    if (abiFile) {
+        const fileAbi = readAbiFile(abiFile)
+        item = selectAbiFunction(fileAbi, nameOrSignature, rawArgs.length)
+        abi = [item, ...fileAbi.filter((entry) => entry.type === "error")]
+    } else {
+        item = parseFunctionSignature(nameOrSignature, stateMutability)
+        abi = [item]
+    }
+    if (item.inputs.length !== rawArgs.length) {
+        throw new ValidationError(`${toFunctionSignature(item)} takes ${item.inputs.length} argument(s), got ${rawArgs.length}`)
+    }
+    return { abi, item, args: item.inputs.map((param, i) => parseAbiArgument(param, rawArgs[i])) }
+}
+
+// viem only treats code 3 / -32603 responses as reverts; other nodes return the revert data under other codes
+const toContractError = (
+    error: unknown,
+    params: { abi: Abi; address: Address; args: unknown[]; functionName: string; sender?: Address }
+): unknown => {
+    if (!(error instanceof BaseError)) return error
+    const contractError = error instanceof ContractFunctionExecutionError ? error : getContractError(error, params)
+    if (contractError.walk((e) => e instanceof ContractFunctionRevertedError)) return contractError
+    const withData = error.walk((e) => typeof (e as { data?: unknown }).data === "string") as { data?: string } | null
+    const data = withData?.data
+    if (!data || !/^0x([0-9a-fA-F]{8})([0-9a-fA-F]{2})*$/.test(data)) return contractError
+    const revert = new ContractFunctionRevertedError({ abi: params.abi, data: data as Hex, functionName: params.functionName })
+    return new ContractFunctionExecutionError(revert, { ...params, contractAddress: params.address })
+}
+
+// Single return values are shown as "result", multiple ones by name (or position)
+const namedOutputs = (item: AbiFunction, decoded: unknown): Record<string, unknown> => {
+    if (item.outputs.length === 1) return { result: decoded }
+    const values = decoded as unknown[]
+    return Object.fromEntries(item.outputs.map((output, i) => [output.name || `output${i}`, values[i]]))
+}
+
+program
+    .command("contract:read")
+    .description("Call a contract function and decode the result")
+    .argument("<address>", "Contract address")
+    .argument("<function>", "Function signature, e.g. \"balanceOf(address)(uint256)\", or a name with --abi")
+    .argument("[args...]", "Function arguments (JSON for arrays and tuples)")
+    .option("-a, --abi <file>", "ABI or Hardhat/Foundry artifact JSON file")
+    .option("-f, --from <address>", "From address (defaults to the profile's default account)")
+    .option("-b, --block <number>", "Block to call at (number, latest or earliest)")
+    .action(async (address, fn, rawArgs: string[], options) => {
+        try {
+            const { abi, item, args } = resolveContractFunction(fn, rawArgs, options.abi, "view")
+            const network = resolveNetwork()
+            const client = getPublicClient(network)
+            const blockNumber = options.block !== undefined ? parseBlockNumber(options.block, await client.getBlockNumber()) : undefined
+            const from = options.from || network.defaultAccount ? resolveAccountAddress(options.from, network) : undefined
+            const data = encodeFunctionData({ abi, functionName: item.name, args })
+            let result: Hex | undefined
+            try {
+                ({ data: result } = await client.call({
+                    to: address,
+                    data,
+                    ...(from && { account: from }),
+                    ...(blockNumber !== undefined && { blockNumber }),
+                }))
+            } catch (error) {
+                throw toContractError(error, { abi, address, args, functionName: item.name, sender: from })
+            }
+            const outputs = item.outputs.length === 0 || !result
+                ? { result: result ?? "0x" }
+                : namedOutputs(item, decodeFunctionResult({ abi, functionName: item.name, data: result }))
+            formatOutput({ function: toFunctionSignature(item), ...outputs }, "result")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+addSigningOptions(addGasOptions(addFeeOptions(program.command("contract:write"))))
+    .description("Send a transaction calling a contract function")
+    .argument("<address>", "Contract address")
+    .argument("<function>", "Function signature, e.g. \"transfer(address,uint256)\", or a name with --abi")
+    .argument("[args...]", "Function arguments (JSON for arrays and tuples)")
+    .option("-a, --abi <file>", "ABI or Hardhat/Foundry artifact JSON file")
+    .option("-v, --value <value>", "Value in ether")
+    .action(async (address, fn, rawArgs: string[], options) => {
+        try {
+            const { abi, item, args } = resolveContractFunction(fn, rawArgs, options.abi, "nonpayable")
+            const config = loadConfig()
+            const network = resolveNetwork(config)
+            const publicClient = getPublicClient(network)
+            await assertExpectedChain(publicClient, network)
+            const fees = await resolveFees(publicClient, options)
+
+            const account = await loadSigningAccount(config, network, options.account)
+            const client = createWalletClient({
+                account,
+                transport: getTransport(network)
+            })
+
+            // Simulate first so a revert is reported, decoded, before any gas is spent
+            const errorParams = { abi, address, args, functionName: item.name, sender: account.address }
+            await publicClient.call({
+                account: account.address,
+                to: address,
+                data: encodeFunctionData({ abi, functionName: item.name, args }),
+                ...(options.value && { value: parseEther(options.value) }),
+            }).catch((error) => {
+                throw toContractError(error, errorParams)
+            })
+
+            const hash = await client.writeContract({
+                address,
+                abi,
+                functionName: item.name,
+                args,
+                chain: null,
+                ...(options.value && { value: parseEther(options.value) }),
+                ...(options.gas && { gas: BigInt(options.gas) }),
+                ...fees,
+                ...(options.nonce && { nonce: Number(options.nonce) }),
+            } as Parameters<typeof client.writeContract>[0]).catch((error) => {
+                throw toContractError(error, errorParams)
+            })
+            formatOutput({
+                transactionHash: hash,
+                from: account.address,
+                to: address,
+                function: toFunctionSignature(item),
+                args,
+            }, "transactionHash")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Artifact, or separate bytecode (file or inline hex) and ABI files
+const loadDeployArtifact = (options: { artifact?: string; bytecode?: string; abi?: string }): ContractArtifact & { bytecode: Hex } => {
+    if (options.artifact) {
+        if (options.bytecode) {
+            throw new ValidationError("Use either --artifact or --bytecode, not both")
+        }
+        const artifact = readArtifact(options.artifact)
+        if (!artifact.bytecode) {
+            throw new ValidationError(`No deployable bytecode in ${options.artifact} (abstract contract or interface?)`)
+        }
+        return { ...artifact, bytecode: artifact.bytecode }
+    }
+    if (!options.bytecode) {
+        throw new ValidationError("Specify --artifact, or --bytecode (with --abi for constructor arguments)")
+    }
+    const bytecode = fs.existsSync(options.bytecode)
+        ? normalizeBytecode(fs.readFileSync(options.bytecode, "utf-8"), options.bytecode)
+        : normalizeBytecode(options.bytecode, "--bytecode")
+    const abi = options.abi ? readAbiFile(options.abi) : []
+    const name = fs.existsSync(options.bytecode) ? path.basename(options.bytecode).replace(/\.[^.]*$/, "") : undefined
+    return { abi, bytecode, ...(name && { contractName: name }) }
+}
+
+interface DeploymentRecord {
+    contract: string
+    address: Address
+    network: string
+    chainId: number
+    deployer: Address
+    transactionHash: Hex
+    blockNumber: string
+    constructorArgs: unknown[]
+    deployedAt: string
+}
+
+const appendDeployment = (file: string, record: DeploymentRecord): void => {
+    const deployments: DeploymentRecord[] = fs.existsSync(file) ? readJsonFile(file) : []
+    if (!Array.isArray(deployments)) {
+        throw new ValidationError(`Deployments registry ${file} is not a JSON array`)
+    }
+    deployments.push(toPlain(record))
+    fs.writeFileSync(file, JSON.stringify(deployments, null, 2))
+}
+
+addSigningOptions(addGasOptions(addFeeOptions(program.command("contract:deploy"))))
+    .description("Deploy a contract from a Hardhat/Foundry artifact or raw bytecode")
+    .argument("[args...]", "Constructor arguments (JSON for arrays and tuples)")
+    .option("-a, --artifact <file>", "Hardhat or Foundry artifact JSON file")
+    .option("-b, --bytecode <file|hex>", "Bytecode file or hex string (instead of --artifact)")
+    .option("--abi <file>", "ABI file, for constructor arguments with --bytecode")
+    .option("-v, --value <value>", "Value in ether sent to the constructor")
+    .option("--timeout <seconds>", "How long to wait for the receipt", "120")
+    .option("-s, --save [file]", "Append the deployment to a registry JSON file (default: deployments.json)")
+    .option("--name <name>", "Contract name recorded in the registry")
+    .action(async (rawArgs: string[], options) => {
+        try {
+            const artifact = loadDeployArtifact(options)
+            const constructor = artifact.abi.find((item) => item.type === "constructor")
+            const inputs = constructor?.inputs ?? []
+            if (inputs.length !== rawArgs.length) {
+                throw new ValidationError(`Constructor takes ${inputs.length} argument(s), got ${rawArgs.length}`)
+            }
+            const args = inputs.map((param, i) => parseAbiArgument(param, rawArgs[i]))
+            const data = encodeDeployData({ abi: artifact.abi, bytecode: artifact.bytecode, args })
+
+            const config = loadConfig()
+            const network = resolveNetwork(config)
+            const publicClient = getPublicClient(network)
+            await assertExpectedChain(publicClient, network)
+            const fees = await resolveFees(publicClient, options)
+
+            const account = await loadSigningAccount(config, network, options.account)
+            const client = createWalletClient({
+                account,
+                transport: getTransport(network)
+            })
+
+            const value = options.value ? parseEther(options.value) : undefined
+            const gas = options.gas
+                ? BigInt(options.gas)
+                : await publicClient.estimateGas({ account: account.address, data, ...(value && { value }) })
+
+            const hash = await client.sendTransaction({
+                data,
+                gas,
+                chain: null,
+                ...(value && { value }),
+                ...fees,
+                ...(options.nonce && { nonce: Number(options.nonce) }),
+            })
+            const receipt = await publicClient.waitForTransactionReceipt({
+                hash,
+                timeout: Number(options.timeout) * 1000,
+            })
+            if (receipt.status !== "success" || !receipt.contractAddress) {
+                throw new CliError(`Deployment transaction ${hash} reverted in block ${receipt.blockNumber}`, EXIT_CODES.reverted)
+            }
+
+            const contractName = options.name ?? artifact.contractName ?? "contract"
+            const registry = options.save === true ? "deployments.json" : options.save
+            if (registry) {
+                appendDeployment(registry, {
+                    contract: contractName,
+                    address: receipt.contractAddress,
+                    network: network.name,
+                    chainId: await publicClient.getChainId(),
+                    deployer: account.address,
+                    transactionHash: hash,
+                    blockNumber: receipt.blockNumber.toString(),
+                    constructorArgs: args,
+                    deployedAt: new Date().toISOString(),
+                })
+            }
+
+            formatOutput({
+                contract: contractName,
+                contractAddress: receipt.contractAddress,
+                transactionHash: hash,
+                deployer: account.address,
+                blockNumber: receipt.blockNumber,
+                gasEstimate: gas,
+                gasUsed: receipt.gasUsed,
+                ...(registry && { registry }),
+            }, "contractAddress")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Offline utilities: nothing here touches the network
+const UNITS: Record<string, number> = { wei: 0, kwei: 3, mwei: 6, gwei: 9, szabo: 12, finney: 15, ether: 18, shm: 18 }
 
-    console.error(table.toString())
+const unitDecimals = (unit: string): number => {
+    const decimals = UNITS[unit.toLowerCase()]
+    if (decimals === undefined) throw new ValidationError(`Unknown unit "${unit}" (${Object.keys(UNITS).join(", ")})`)
+    return decimals
 }
 
-// Configuration management
-const loadConfig = (): { rpcUrl: string; privateKey: string } => {
-    const defaultConfig = { rpcUrl: "https://atomium.shardeum.org", privateKey: "" }
-    if (!fs.existsSync(CONFIG_PATH)) return defaultConfig
+// "uint256, address to" for a parameter list; anything with a name before the parenthesis is a function signature
+const isFunctionSignature = (types: string): boolean => /^\s*(function\s+)?[A-Za-z_$][\w$]*\s*\(/.test(types)
+
+const parseParameterList = (types: string): readonly AbiParameter[] => {
+    if (!types.trim()) return []
     try {
-        return JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"))
-    } catch {
-        return defaultConfig
+        return parseAbiParameters(types)
+    } catch (error) {
+        throw new ValidationError(`Invalid ABI types "${types}": ${errorSummary(error)}`)
     }
 }
 
-const saveConfig = (config: Partial<{ rpcUrl: string; privateKey: string }>): void => {
-    if (!fs.existsSync(CONFIG_DIR)) {
-        fs.mkdirSync(CONFIG_DIR, { recursive: true })
+const namedValues = (params: readonly AbiParameter[], values: readonly unknown[], prefix: string): Record<string, unknown> =>
+    Object.fromEntries(params.map((param, i) => [param.name || `${prefix}${i}`, values[i]]))
+
+const decodeOrReject = <T>(decode: () => T): T => {
+    try {
+        return decode()
+    } catch (error) {
+        throw new ValidationError(`Could not decode the data: ${errorSummary(error)}`)
     }
-    const currentConfig = loadConfig()
-    const newConfig = { ...currentConfig, ...config }
-    fs.writeFileSync(CONFIG_PATH, JSON.stringify(newConfig, null, 2))
 }
 
-// CLI Program
-const program = new Command()
-
-// Configuration commands
 program
-    .command("config:set-rpc")
-    .description("Set RPC URL")
-    .argument("<url>", "RPC URL")
-    .action((url) => {
-        saveConfig({ rpcUrl: url })
-        formatOutput({ status: "RPC URL updated", url })
+    .command("util:keccak")
+    .description("Keccak-256 hash of text or hex data, computed locally")
+    .argument("<data>", "Text, or 0x-prefixed hex to hash as bytes")
+    .option("--text", "Hash the argument as text even if it looks like hex")
+    .action((data: string, options) => {
+        try {
+            const hex = !options.text && /^0x([0-9a-fA-F]{2})*$/.test(data)
+            const hash = keccak256(hex ? (data as Hex) : toHex(data))
+            formatOutput({ input: data, encoding: hex ? "hex" : "text", hash }, "hash")
+        } catch (error) {
+            handleError(error)
+        }
     })
 
 program
-    .command("config:set-key")
-    .description("Set private key")
-    .argument("<key>", "Private key")
-    .action((key) => {
-        saveConfig({ privateKey: key })
-        formatOutput({ status: "Private key updated" })
+    .command("util:toWei")
+    .description("Convert an amount in a named unit to wei")
+    .argument("<amount>", "Amount, e.g. 1.5")
+    .argument("[unit]", `Unit: ${Object.keys(UNITS).join(", ")}`, "ether")
+    .action((amount: string, unit: string) => {
+        try {
+            const decimals = unitDecimals(unit)
+            if (!/^-?\d+(\.\d+)?$/.test(amount)) throw new ValidationError(`Invalid amount: ${amount}`)
+            if ((amount.split(".")[1] ?? "").length > decimals) {
+                throw new ValidationError(`${amount} ${unit} is not a whole number of wei`)
+            }
+            formatOutput({ amount, unit, wei: parseUnits(amount, decimals) }, "wei")
+        } catch (error) {
+            handleError(error)
+        }
     })
 
-// Ethereum JSON-RPC commands
 program
-    .command("eth:blockNumber")
-    .description("Get the latest block number")
-    .action(async () => {
+    .command("util:fromWei")
+    .description("Convert an amount in wei to a named unit")
+    .argument("<wei>", "Amount in wei")
+    .argument("[unit]", `Unit: ${Object.keys(UNITS).join(", ")}`, "ether")
+    .action((wei: string, unit: string) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const result = await client.getBlockNumber()
-            formatOutput({ blockNumber: result.toString() })
+            const decimals = unitDecimals(unit)
+            if (!/^-?\d+$/.test(wei)) throw new ValidationError(`Invalid wei amount: ${wei}`)
+            formatOutput({ wei, unit, amount: formatUnits(BigInt(wei), decimals) }, "amount")
         } catch (error) {
             handleError(error)
         }
     })
 
 program
-    .command("eth:getBalance")
-    .description("Get balance for an address")
-    .argument("<address>", "Ethereum address")
-    .action(async (address) => {
+    .command("util:checksum")
+    .description("Print the EIP-55 checksummed form of an address")
+    .argument("<address>", "Address in any case")
+    .action((address: string) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const balance = await client.getBalance({ address })
+            if (!isAddress(address, { strict: false })) throw new ValidationError(`Invalid address: ${address}`)
+            const checksummed = getAddress(address)
+            // All-lowercase and all-uppercase addresses carry no checksum to verify
+            const mixedCase = address.slice(2) !== address.slice(2).toLowerCase() && address.slice(2) !== address.slice(2).toUpperCase()
             formatOutput({
-                address,
-                balance: formatEther(balance),
-            })
+                address: checksummed,
+                input: address,
+                inputChecksum: mixedCase ? (address === checksummed ? "valid" : "invalid") : "none",
+            }, "address")
         } catch (error) {
             handleError(error)
         }
     })
 
-// eth_getStorageAt
 program
-    .command("eth:getStorageAt")
-    .description("Get storage value at address and position")
-    .argument("<address>", "Contract address")
-    .argument("<position>", "Storage position")
-    .action(async (address, position) => {
+    .command("util:selector")
+    .description("4-byte selector of a function or error, or topic of an event")
+    .argument("<signature>", "e.g. \"transfer(address,uint256)\", \"event Transfer(address indexed,address indexed,uint256)\" or \"error Unauthorized()\"")
+    .action((signature: string) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const storage = await client.getStorageAt({ address, slot: position })
-            formatOutput({ address, position, storage })
+            const trimmed = signature.trim()
+            if (trimmed.startsWith("event ")) {
+                const event = parseEventSignature(trimmed)
+                formatOutput({ signature: toEventSignature(event), type: "event", topic: toEventSelector(event) }, "topic")
+                return
+            }
+            if (trimmed.startsWith("error ")) {
+                let item: Abi[number]
+                try {
+                    item = parseAbiItem(trimmed)
+                } catch (error) {
+                    throw new ValidationError(`Invalid error signature "${signature}": ${errorSummary(error)}`)
+                }
+                if (item.type !== "error") throw new ValidationError(`Invalid error signature "${signature}"`)
+                // Errors are selected exactly like functions with the same name and inputs
+                const canonical = toFunctionSignature({ ...item, type: "function", outputs: [], stateMutability: "nonpayable" })
+                formatOutput({ signature: canonical, type: "error", selector: toFunctionSelector(canonical) }, "selector")
+                return
+            }
+            const item = parseFunctionSignature(trimmed, "nonpayable")
+            formatOutput({ signature: toFunctionSignature(item), type: "function", selector: toFunctionSelector(item) }, "selector")
         } catch (error) {
             handleError(error)
         }
     })
 
-// eth_getTransactionCount
 program
-    .command("eth:getTransactionCount")
-    .description("Get transaction count for address")
-    .argument("<address>", "Account address")
-    .action(async (address) => {
+    .command("util:abi-encode")
+    .description("ABI-encode values, or whole calldata when given a function signature")
+    .argument("<types>", "Comma-separated types, e.g. \"address,uint256\", or a function signature, e.g. \"transfer(address,uint256)\"")
+    .argument("[values...]", "Values (JSON for arrays and tuples)")
+    .action((types: string, rawValues: string[]) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const count = await client.getTransactionCount({ address })
-            formatOutput({ address, transactionCount: count.toString() })
+            if (isFunctionSignature(types)) {
+                const item = parseFunctionSignature(types, "nonpayable")
+                if (item.inputs.length !== rawValues.length) {
+                    throw new ValidationError(`${toFunctionSignature(item)} takes ${item.inputs.length} argument(s), got ${rawValues.length}`)
+                }
+                const args = item.inputs.map((param, i) => parseAbiArgument(param, rawValues[i]))
+                const data = encodeFunctionData({ abi: [item], functionName: item.name, args })
+                formatOutput({ function: toFunctionSignature(item), selector: toFunctionSelector(item), data }, "data")
+                return
+            }
+            const params = parseParameterList(types)
+            if (params.length !== rawValues.length) {
+                throw new ValidationError(`${params.length} type(s) but ${rawValues.length} value(s)`)
+            }
+            const values = params.map((param, i) => parseAbiArgument(param, rawValues[i]))
+            formatOutput({ types: params.map((param) => param.type).join(","), data: encodeAbiParameters(params, values) }, "data")
         } catch (error) {
             handleError(error)
         }
     })
 
-// eth_getCode
 program
-    .command("eth:getCode")
-    .description("Get code at address")
-    .argument("<address>", "Contract address")
-    .action(async (address) => {
+    .command("util:abi-decode")
+    .description("Decode ABI-encoded data: values, calldata or a function's return data")
+    .argument("<types>", "Comma-separated types, or a function signature (with return types to decode return data)")
+    .argument("<data>", "0x-prefixed hex data")
+    .action((types: string, data: string) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const code = await client.getBytecode({ address })
-            formatOutput({ address, code })
+            if (!/^0x([0-9a-fA-F]{2})*$/.test(data)) throw new ValidationError("Data must be 0x-prefixed hex")
+            if (isFunctionSignature(types)) {
+                const item = parseFunctionSignature(types, "nonpayable")
+                // Calldata starts with the selector; anything else is taken as return data
+                if (data.toLowerCase().startsWith(toFunctionSelector(item))) {
+                    const { args } = decodeOrReject(() => decodeFunctionData({ abi: [item], data: data as Hex }))
+                    formatOutput(namedValues(item.inputs, args ?? [], "arg"))
+                    return
+                }
+                if (item.outputs.length === 0) {
+                    throw new ValidationError(`Data doesn't start with the selector ${toFunctionSelector(item)}; add return types to decode return data`)
+                }
+                formatOutput(namedValues(item.outputs, decodeOrReject(() => decodeAbiParameters(item.outputs, data as Hex)), "output"))
+                return
+            }
+            const params = parseParameterList(types)
+            formatOutput(namedValues(params, decodeOrReject(() => decodeAbiParameters(params, data as Hex)), "value"))
         } catch (error) {
             handleError(error)
         }
     })
 
-// eth_call
+// Token commands
+const ERC20_ABI = parseAbi([
+    "function name() view returns (string)",
+    "function symbol() view returns (string)",
+    "function decimals() view returns (uint8)",
+    "function totalSupply() view returns (uint256)",
+    "function balanceOf(address owner) view returns (uint256)",
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    // OpenZeppelin 5 errors, so common reverts are decoded
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InvalidReceiver(address receiver)",
+])
+
+const ERC721_ABI = parseAbi([
+    "function name() view returns (string)",
+    "function ownerOf(uint256 tokenId) view returns (address)",
+    "function tokenURI(uint256 tokenId) view returns (string)",
+    "function safeTransferFrom(address from, address to, uint256 tokenId)",
+    "error ERC721NonexistentToken(uint256 tokenId)",
+    "error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)",
+    "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+    "error ERC721InvalidReceiver(address receiver)",
+])
+
+const parseTokenAddress = (value: string, label = "token"): Address => {
+    if (!isAddress(value)) throw new ValidationError(`Invalid ${label} address: ${value}`)
+    return getAddress(value)
+}
+
+const parseTokenId = (value: string): bigint => {
+    if (!/^\d+$/.test(value)) throw new ValidationError(`Invalid token ID: ${value}`)
+    return BigInt(value)
+}
+
+// Optional ERC-20 metadata: tokens that leave out name() or symbol() still work
+const readTokenMetadata = async (client: PublicClient, token: Address) => {
+    const read = <T>(functionName: "name" | "symbol" | "decimals"): Promise<T | undefined> =>
+        client.readContract({ address: token, abi: ERC20_ABI, functionName }).then((value) => value as T, () => undefined)
+    const [name, symbol, decimals] = await Promise.all([read<string>("name"), read<string>("symbol"), read<number>("decimals")])
+    return { name, symbol, decimals: decimals ?? 18, decimalsKnown: decimals !== undefined }
+}
+
+// "1.5" in whole tokens using the token's decimals, or base units with --raw; "max" approves everything
+const parseTokenAmount = (amount: string, decimals: number, raw: boolean): bigint => {
+    if (amount === "max") return maxUint256
+    if (raw ? !/^\d+$/.test(amount) : !/^\d+(\.\d+)?$/.test(amount)) {
+        throw new ValidationError(`Invalid amount: ${amount}`)
+    }
+    const [, fraction = ""] = amount.split(".")
+    if (!raw && fraction.length > decimals) {
+        throw new ValidationError(`Amount ${amount} has more than the token's ${decimals} decimals`)
+    }
+    return raw ? BigInt(amount) : parseUnits(amount, decimals)
+}
+
+const formatTokenAmount = (amount: bigint, metadata: { decimals: number; symbol?: string }): string =>
+    amount === maxUint256 ? "unlimited" : `${formatUnits(amount, metadata.decimals)}${metadata.symbol ? ` ${metadata.symbol}` : ""}`
+
+// Shared by the token and NFT write commands: simulate, send, and optionally wait like eth:sendTransaction.
+// Arguments may depend on the signer (e.g. the "from" of safeTransferFrom), which is only known once unlocked.
+const sendTokenTransaction = async (
+    options: FeeOptions & { account?: string; gas?: string; nonce?: string; wait?: string | boolean; timeout?: string },
+    call: { address: Address; abi: Abi; functionName: string; args: unknown[] | ((sender: Address) => unknown[]) }
+): Promise<Record<string, unknown>> => {
+    const wait = options.wait ? parseWaitOptions(options) : undefined
+    for (const [flag, value] of [["--gas", options.gas], ["--nonce", options.nonce]]) {
+        if (value !== undefined && !/^\d+$/.test(value)) throw new ValidationError(`Invalid ${flag}: ${value}`)
+    }
+    const config = loadConfig()
+    const network = resolveNetwork(config)
+    const publicClient = getPublicClient(network)
+    await assertExpectedChain(publicClient, network)
+    const fees = await resolveFees(publicClient, options)
+    const account = await loadSigningAccount(config, network, options.account)
+    const client = createWalletClient({ account, transport: getTransport(network) })
+    const gas = options.gas !== undefined ? { gas: BigInt(options.gas) } : {}
+
+    const args = typeof call.args === "function" ? call.args(account.address) : call.args
+    const errorParams = { abi: call.abi, address: call.address, args, functionName: call.functionName, sender: account.address }
+    const data = encodeFunctionData({ abi: call.abi, functionName: call.functionName, args })
+    await publicClient.call({ account: account.address, to: call.address, data, ...gas }).catch((error) => {
+        throw toContractError(error, errorParams)
+    })
+    const hash = await client.sendTransaction({
+        to: call.address,
+        data,
+        chain: null,
+        ...gas,
+        ...fees,
+        ...(options.nonce !== undefined && { nonce: Number(options.nonce) }),
+    }).catch((error) => {
+        throw toContractError(error, errorParams)
+    })
+    if (!wait) return { transactionHash: hash, from: account.address }
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash, ...wait })
+    if (receipt.status !== "success") {
+        process.exitCode = EXIT_CODES.reverted
+    }
+    return summarizeReceipt(publicClient, receipt)
+}
+
 program
-    .command("eth:call")
-    .description("Execute contract call")
-    .requiredOption("-t, --to <address>", "Contract address")
-    .requiredOption("-d, --data <data>", "Call data")
-    .option("-f, --from <address>", "From address")
-    .action(async (options) => {
+    .command("token:info")
+    .description("Show an ERC-20 token's name, symbol, decimals and total supply")
+    .argument("<token>", "Token contract address")
+    .action(async (tokenArg) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const result = await client.call({
-                to: options.to,
-                data: options.data,
-                ...(options.from && { from: options.from }),
-            })
-            formatOutput({ result: result.data })
+            const token = parseTokenAddress(tokenArg)
+            const client = getPublicClient()
+            const [metadata, totalSupply] = await Promise.all([
+                readTokenMetadata(client, token),
+                client.readContract({ address: token, abi: ERC20_ABI, functionName: "totalSupply" }),
+            ])
+            formatOutput({
+                token,
+                name: metadata.name ?? "",
+                symbol: metadata.symbol ?? "",
+                decimals: metadata.decimalsKnown ? metadata.decimals : "unknown (assuming 18)",
+                totalSupply: formatTokenAmount(totalSupply, metadata),
+                totalSupplyRaw: totalSupply,
+            }, "symbol")
         } catch (error) {
             handleError(error)
         }
     })
 
-// eth_estimateGas
 program
-    .command("eth:estimateGas")
-    .description("Estimate gas for transaction")
-    .requiredOption("-t, --to <address>", "To address")
-    .requiredOption("-d, --data <data>", "Transaction data")
-    .option("-f, --from <address>", "From address")
-    .option("-v, --value <value>", "Value in wei")
-    .action(async (options) => {
+    .command("token:balance")
+    .description("Get an ERC-20 token balance")
+    .argument("<token>", "Token contract address")
+    .argument("[address]", "Holder address (defaults to the profile's default account)")
+    .action(async (tokenArg, addressArg) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const gasEstimate = await client.estimateGas({
-                to: options.to,
-                data: options.data,
-                ...(options.from && { from: options.from }),
-                ...(options.value && { value: BigInt(options.value) }),
-            })
-            formatOutput({ gasEstimate: gasEstimate.toString() })
+            const token = parseTokenAddress(tokenArg)
+            const network = resolveNetwork()
+            const owner = resolveAccountAddress(addressArg, network)
+            const client = getPublicClient(network)
+            const [metadata, balance] = await Promise.all([
+                readTokenMetadata(client, token),
+                client.readContract({ address: token, abi: ERC20_ABI, functionName: "balanceOf", args: [owner] }),
+            ])
+            // Without decimals() any scaling would be a guess, so the balance stays in base units
+            if (!metadata.decimalsKnown) console.error(pc.yellow(`Warning: ${token} has no decimals(); balance is in base units`))
+            formatOutput({
+                token,
+                address: owner,
+                balance: metadata.decimalsKnown ? formatUnits(balance, metadata.decimals) : balance,
+                symbol: metadata.symbol ?? "",
+                raw: balance,
+            }, "balance")
         } catch (error) {
             handleError(error)
         }
     })
 
-// Block and Transaction related commands
 program
-    .command("eth:getBlockTransactionCountByHash")
-    .description("Get block transaction count by hash")
-    .argument("<hash>", "Block hash")
-    .action(async (hash) => {
+    .command("token:allowance")
+    .description("Get how much a spender may transfer from an owner's ERC-20 balance")
+    .argument("<token>", "Token contract address")
+    .argument("<spender>", "Spender address")
+    .argument("[owner]", "Owner address (defaults to the profile's default account)")
+    .action(async (tokenArg, spenderArg, ownerArg) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const count = await client.request({
-                method: "eth_getBlockTransactionCountByHash",
-                params: [hash],
-            })
-            formatOutput({ blockHash: hash, transactionCount: Number(count) })
+            const token = parseTokenAddress(tokenArg)
+            const spender = parseTokenAddress(spenderArg, "spender")
+            const network = resolveNetwork()
+            const owner = resolveAccountAddress(ownerArg, network)
+            const client = getPublicClient(network)
+            const [metadata, allowance] = await Promise.all([
+                readTokenMetadata(client, token),
+                client.readContract({ address: token, abi: ERC20_ABI, functionName: "allowance", args: [owner, spender] }),
+            ])
+            formatOutput({
+                token,
+                owner,
+                spender,
+                allowance: formatTokenAmount(allowance, metadata),
+                raw: allowance,
+            }, "allowance")
         } catch (error) {
             handleError(error)
         }
     })
 
-
-
-// Add remaining block and transaction commands
-const blockCommands = [
-    {
-        name: "eth:getBlockByHash",
-        description: "Get block by hash",
-        method: "getBlock",
-        params: (hash: string) => ({ blockHash: hash }),
-    },
-    {
-        name: "eth:getBlockByNumber",
-        description: "Get block by number",
-        method: "getBlock",
-        params: (number: string) => ({ blockNumber: BigInt(number) }),
-    },
-    {
-        name: "eth:getTransactionByHash",
-        description: "Get transaction by hash",
-        method: "getTransaction",
-        params: (hash: string) => ({ hash }),
-    },
-]
-
-blockCommands.forEach(({ name, description, method, params }) => {
-    program
-        .command(name)
-        .description(description)
-        .argument("<value>", "Hash or block number")
-        .action(async (value) => {
-            try {
-                const config = loadConfig()
-                const client = createPublicClient({ transport: http(config.rpcUrl) })
-                const result = await (client as any)[method](params(value))
-                formatOutput(result)
-            } catch (error) {
-                handleError(error)
-            }
-        })
-})
-
-// Network and utility commands
-program
-    .command("web3:clientVersion")
-    .description("Get client version")
-    .action(async () => {
+addWaitOptions(addSigningOptions(addGasOptions(addFeeOptions(program.command("token:transfer")))))
+    .description("Transfer ERC-20 tokens")
+    .argument("<token>", "Token contract address")
+    .argument("<to>", "Recipient address")
+    .argument("<amount>", "Amount in whole tokens, e.g. 1.5 (base units with --raw)")
+    .option("--raw", "Amount is in base units")
+    .action(async (tokenArg, toArg, amountArg, options) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const version = await client.request({ method: "web3_clientVersion" })
-            formatOutput({ clientVersion: version })
+            if (amountArg === "max") throw new ValidationError("Transfer a specific amount, not \"max\"")
+            const token = parseTokenAddress(tokenArg)
+            const to = parseTokenAddress(toArg, "recipient")
+            const metadata = await readTokenMetadata(getPublicClient(), token)
+            const amount = parseTokenAmount(amountArg, metadata.decimals, Boolean(options.raw))
+            const result = await sendTokenTransaction(options, { address: token, abi: ERC20_ABI, functionName: "transfer", args: [to, amount] })
+            formatOutput({ token, recipient: to, amount: formatTokenAmount(amount, metadata), ...result }, "transactionHash")
         } catch (error) {
             handleError(error)
         }
     })
 
-program
-    .command("web3:sha3")
-    .description("Calculate Keccak-256 hash")
-    .argument("<data>", "Data to hash")
-    .action(async (data) => {
+addWaitOptions(addSigningOptions(addGasOptions(addFeeOptions(program.command("token:approve")))))
+    .description("Allow a spender to transfer ERC-20 tokens on your behalf")
+    .argument("<token>", "Token contract address")
+    .argument("<spender>", "Spender address")
+    .argument("<amount>", "Amount in whole tokens, base units with --raw, or \"max\"")
+    .option("--raw", "Amount is in base units")
+    .action(async (tokenArg, spenderArg, amountArg, options) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const hash = await client.request({
-                method: "web3_sha3",
-                params: [data],
-            })
-            formatOutput({ input: data, hash })
+            const token = parseTokenAddress(tokenArg)
+            const spender = parseTokenAddress(spenderArg, "spender")
+            const metadata = await readTokenMetadata(getPublicClient(), token)
+            const amount = parseTokenAmount(amountArg, metadata.decimals, Boolean(options.raw))
+            const result = await sendTokenTransaction(options, { address: token, abi: ERC20_ABI, functionName: "approve", args: [spender, amount] })
+            formatOutput({ token, spender, amount: formatTokenAmount(amount, metadata), ...result }, "transactionHash")
         } catch (error) {
             handleError(error)
         }
     })
 
 program
-    .command("net:version")
-    .description("Get network version")
-    .action(async () => {
+    .command("nft:owner")
+    .description("Get the owner of an ERC-721 token")
+    .argument("<contract>", "NFT contract address")
+    .argument("<tokenId>", "Token ID")
+    .action(async (contractArg, tokenIdArg) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const version = await client.request({ method: "net_version" })
-            formatOutput({ networkVersion: version })
+            const contract = parseTokenAddress(contractArg, "contract")
+            const tokenId = parseTokenId(tokenIdArg)
+            const owner = await getPublicClient().readContract({ address: contract, abi: ERC721_ABI, functionName: "ownerOf", args: [tokenId] })
+            formatOutput({ contract, tokenId, owner }, "owner")
         } catch (error) {
             handleError(error)
         }
     })
 
 program
-    .command("eth:protocolVersion")
-    .description("Get Ethereum protocol version")
-    .action(async () => {
+    .command("nft:tokenURI")
+    .description("Get the metadata URI of an ERC-721 token")
+    .argument("<contract>", "NFT contract address")
+    .argument("<tokenId>", "Token ID")
+    .action(async (contractArg, tokenIdArg) => {
         try {
-            const config = loadConfig()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
-            const version = await client.request({ method: "eth_protocolVersion" })
-            formatOutput({ protocolVersion: version })
+            const contract = parseTokenAddress(contractArg, "contract")
+            const tokenId = parseTokenId(tokenIdArg)
+            const tokenURI = await getPublicClient().readContract({ address: contract, abi: ERC721_ABI, functionName: "tokenURI", args: [tokenId] })
+            formatOutput({ contract, tokenId, tokenURI }, "tokenURI")
         } catch (error) {
             handleError(error)
         }
     })
 
-program
-    .command("eth:sendTransaction")
-    .description("Send a transaction")
-    .requiredOption("-t, --to <address>", "To address")
-    .option("-v, --value <value>", "Value in ether")
-    .option("-d, --data <data>", "Transaction data")
-    .option("-g, --gas <limit>", "Gas limit")
-    .option("-p, --gasPrice <price>", "Gas price in gwei")
-    .option("-n, --nonce <nonce>", "Nonce value")
-    .action(async (options) => {
+addWaitOptions(addSigningOptions(addGasOptions(addFeeOptions(program.command("nft:transfer")))))
+    .description("Transfer an ERC-721 token you own (safeTransferFrom)")
+    .argument("<contract>", "NFT contract address")
+    .argument("<to>", "Recipient address")
+    .argument("<tokenId>", "Token ID")
+    .action(async (contractArg, toArg, tokenIdArg, options) => {
         try {
-            const config = loadConfig()
-            if (!config.privateKey) {
-                throw new Error("Private key not configured. Use config:set-key to set it.")
-            }
-
-            const account = privateKeyToAccount(`0x${config.privateKey.replace("0x", "")}`)
-            const client = createWalletClient({
-                account,
-                transport: http(config.rpcUrl)
+            const contract = parseTokenAddress(contractArg, "contract")
+            const to = parseTokenAddress(toArg, "recipient")
+            const tokenId = parseTokenId(tokenIdArg)
+            const result = await sendTokenTransaction(options, {
+                address: contract,
+                abi: ERC721_ABI,
+                functionName: "safeTransferFrom",
+                args: (from: Address) => [from, to, tokenId],
             })
+            formatOutput({ contract, to, tokenId, ...result }, "transactionHash")
+        } catch (error) {
+            handleError(error)
+        }
+    })
 
-            const transaction = {
-                to: options.to,
-                ...(options.value && { value: parseEther(options.value) }),
-                ...(options.data && { data: options.data }),
-                ...(options.gas && { gas: BigInt(options.gas) }),
-                ...(options.gasPrice && { gasPrice: parseGwei(options.gasPrice) }),
-                ...(options.nonce && { nonce: Number(options.nonce) })
+// Staking
+// Shardeum stakes through "internal transactions": a JSON payload sent as the data of a transaction to this address
+const STAKE_ADDRESS: Address = "0x0000000000000000000000000000000000010000"
+const INTERNAL_TX_TYPES = { stake: 6, unstake: 7 } as const
+// The gas limit Shardeum's own staking tools use; only the gas actually used is charged
+const STAKE_GAS_LIMIT = "30000000"
+
+const parseNodePublicKey = (value: string): string => {
+    const key = value.replace(/^0x/, "").toLowerCase()
+    if (!/^[0-9a-f]{64}$/.test(key)) throw new ValidationError(`Invalid node public key: ${value} (64 hex characters)`)
+    return key
+}
+
+const parseStakeAmount = (value: string): bigint => {
+    if (!/^\d+(\.\d+)?$/.test(value) || /^0+(\.0+)?$/.test(value)) throw new ValidationError(`Invalid stake amount: ${value}`)
+    return parseEther(value)
+}
+
+const sendStakeTransaction = async (
+    options: FeeOptions & { account?: string; gas: string; wait?: string | boolean; timeout?: string },
+    build: (nominator: Address) => { payload: Record<string, unknown>; value: bigint }
+): Promise<Record<string, unknown>> => {
+    const wait = options.wait ? parseWaitOptions(options) : undefined
+    if (!/^\d+$/.test(options.gas)) throw new ValidationError(`Invalid gas limit: ${options.gas}`)
+    const config = loadConfig()
+    const network = resolveNetwork(config)
+    const publicClient = getPublicClient(network)
+    await assertExpectedChain(publicClient, network)
+    const fees = await resolveFees(publicClient, options)
+    const account = await loadSigningAccount(config, network, options.account)
+    const client = createWalletClient({ account, transport: getTransport(network) })
+
+    const { payload, value } = build(account.address)
+    const hash = await client.sendTransaction({
+        to: STAKE_ADDRESS,
+        value,
+        data: toHex(JSON.stringify(payload)),
+        gas: BigInt(options.gas),
+        chain: null,
+        ...fees,
+    })
+    if (!wait) return { transactionHash: hash, from: account.address }
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash, ...wait })
+    if (receipt.status !== "success") {
+        process.exitCode = EXIT_CODES.reverted
+    }
+    return summarizeReceipt(publicClient, receipt)
+}
+
+// Shardeum serializes bigints in account data as { dataType: "bi", value: "<hex>" }
+const shardeumBigInt = (value: unknown): bigint | undefined => {
+    if (value === undefined || value === null) return undefined
+    if (typeof value === "object" && (value as { dataType?: string }).dataType === "bi") {
+        const hex = String((value as { value: string }).value)
+        return BigInt(hex.startsWith("0x") ? hex : `0x${hex}`)
+    }
+    if (typeof value === "number" || typeof value === "bigint") return BigInt(value)
+    if (typeof value === "string" && /^(0x[0-9a-fA-F]+|\d+)$/.test(value)) return BigInt(value)
+    return undefined
+}
+
+// Account data from a validator's (or archiver's) /account/<id> endpoint; undefined for accounts that don't exist
+const fetchShardeumAccount = async (api: string, id: string): Promise<Record<string, any> | undefined> => {
+    const url = `${api.replace(/\/+$/, "")}/account/${id}`
+    let response: Response
+    try {
+        response = await fetch(url, { signal: AbortSignal.timeout(10000) })
+    } catch (error) {
+        throw new CliError(`Could not reach ${url}: ${(error as Error).message}`, EXIT_CODES.rpc)
+    }
+    if (!response.ok) {
+        throw new CliError(`${url} returned HTTP ${response.status}; point --api at a Shardeum validator or archiver`, EXIT_CODES.rpc)
+    }
+    const body = await response.json().catch(() => {
+        throw new CliError(`${url} did not return JSON; point --api at a Shardeum validator or archiver`, EXIT_CODES.rpc)
+    })
+    const account = body?.account ?? undefined
+    return account?.data ?? account
+}
+
+const formatTimestamp = (ms: number | undefined): string =>
+    ms ? new Date(ms < 1e12 ? ms * 1000 : ms).toISOString() : ""
+
+// Whether the nominator could unstake now, going by the node's account data
+const describeStakeLock = (operator: Record<string, any> | undefined, node: Record<string, any> | undefined): string => {
+    if (!operator?.nominee) return "no stake"
+    if (node && Number(node.rewardStartTime) > 0 && Number(node.rewardEndTime) === 0) {
+        return "locked: node is active"
+    }
+    const certExp = Number(operator.certExp ?? 0)
+    if (certExp > Date.now()) return `locked: stake certificate valid until ${formatTimestamp(certExp)}`
+    return "unlocked"
+}
+
+addWaitOptions(addSigningOptions(addFeeOptions(program.command("stake:add")), "Signing (nominator)"))
+    .description("Stake SHM on a validator node")
+    .argument("<nominee>", "Public key of the validator node")
+    .argument("<amount>", "Amount to stake, in SHM")
+    .option("-g, --gas <limit>", "Gas limit", STAKE_GAS_LIMIT)
+    .action(async (nomineeArg, amountArg, options) => {
+        try {
+            const nominee = parseNodePublicKey(nomineeArg)
+            const amount = parseStakeAmount(amountArg)
+            const result = await sendStakeTransaction(options, (nominator) => ({
+                value: amount,
+                payload: {
+                    isInternalTx: true,
+                    internalTXType: INTERNAL_TX_TYPES.stake,
+                    nominator: nominator.toLowerCase(),
+                    timestamp: Date.now(),
+                    nominee,
+                    stake: { dataType: "bi", value: amount.toString(16) },
+                },
+            }))
+            formatOutput({ nominee, stake: `${formatEther(amount)} SHM`, ...result }, "transactionHash")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+addWaitOptions(addSigningOptions(addFeeOptions(program.command("stake:remove")), "Signing (nominator)"))
+    .description("Unstake from a validator node, returning the stake to the nominator")
+    .argument("<nominee>", "Public key of the validator node")
+    .option("--force", "Unstake even if the node is still active (forfeits rewards)")
+    .option("-g, --gas <limit>", "Gas limit", STAKE_GAS_LIMIT)
+    .action(async (nomineeArg, options) => {
+        try {
+            const nominee = parseNodePublicKey(nomineeArg)
+            const result = await sendStakeTransaction(options, (nominator) => ({
+                value: BigInt(0),
+                payload: {
+                    isInternalTx: true,
+                    internalTXType: INTERNAL_TX_TYPES.unstake,
+                    nominator: nominator.toLowerCase(),
+                    timestamp: Date.now(),
+                    nominee,
+                    force: Boolean(options.force),
+                },
+            }))
+            formatOutput({ nominee, ...result }, "transactionHash")
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+program
+    .command("stake:info")
+    .description("Show the stake of a nominator account, or of a validator node, and whether it is locked")
+    .argument("[address]", "Nominator address (defaults to the profile's default account)")
+    .option("--node <publicKey>", "Look up a validator node instead of a nominator")
+    .option("--api <url>", "Validator or archiver API serving /account/<id> (defaults to the profile's API URL)")
+    .action(async (addressArg, options) => {
+        try {
+            const network = resolveNetwork()
+            // JSON-RPC gateways don't serve /account/<id>, so there is no falling back to the RPC URL
+            const api: string | undefined = options.api ?? network.apiUrl
+            if (!api) {
+                throw new ValidationError(`stake:info needs a validator or archiver API: pass --api <url> or add one to profile "${network.name}" with config:profile add --api`)
+            }
+            if (options.node) {
+                const nodeKey = parseNodePublicKey(options.node)
+                const node = await fetchShardeumAccount(api, nodeKey)
+                if (!node) throw new CliError(`No node account for ${nodeKey}`, EXIT_CODES.error)
+                const nominator = node.nominator ? getAddress(node.nominator) : undefined
+                const operator = nominator ? (await fetchShardeumAccount(api, nominator.toLowerCase()))?.operatorAccountInfo : undefined
+                formatOutput({
+                    node: nodeKey,
+                    nominator: nominator ?? "",
+                    stake: `${formatEther(shardeumBigInt(node.stakeLock) ?? BigInt(0))} SHM`,
+                    active: Number(node.rewardStartTime) > 0 && Number(node.rewardEndTime) === 0,
+                    rewardStartTime: formatTimestamp(Number(node.rewardStartTime)),
+                    rewardEndTime: formatTimestamp(Number(node.rewardEndTime)),
+                    reward: `${formatEther(shardeumBigInt(node.reward) ?? BigInt(0))} SHM`,
+                    penalty: `${formatEther(shardeumBigInt(node.penalty) ?? BigInt(0))} SHM`,
+                    lockState: describeStakeLock(operator ?? { nominee: nodeKey }, node),
+                }, "stake")
+                return
             }
 
-            const hash = await client.sendTransaction(transaction)
+            const nominator = resolveAccountAddress(addressArg, network)
+            const account = await fetchShardeumAccount(api, nominator.toLowerCase())
+            const operator = account?.operatorAccountInfo
+            const node = operator?.nominee ? await fetchShardeumAccount(api, operator.nominee) : undefined
             formatOutput({
-                transactionHash: hash,
-                from: account.address,
-                ...transaction,
-                ...(transaction.value && { 
-                    value: `${options.value} ETH (${transaction.value.toString()} wei)`
-                })
-            })
+                nominator,
+                nominee: operator?.nominee ?? "",
+                stake: `${formatEther(shardeumBigInt(operator?.stake) ?? BigInt(0))} SHM`,
+                certificateExpires: formatTimestamp(Number(operator?.certExp ?? 0)),
+                ...(node && {
+                    nodeActive: Number(node.rewardStartTime) > 0 && Number(node.rewardEndTime) === 0,
+                    nodeReward: `${formatEther(shardeumBigInt(node.reward) ?? BigInt(0))} SHM`,
+                    nodePenalty: `${formatEther(shardeumBigInt(node.penalty) ?? BigInt(0))} SHM`,
+                }),
+                lockState: describeStakeLock(operator, node),
+            }, "stake")
         } catch (error) {
             handleError(error)
         }
     })
 
 // Add these utility functions before the CLI commands
+// Log-bucketed histogram: constant memory however long a test runs, percentiles accurate to ~2%
+class LatencyHistogram {
+    private static readonly GROWTH = 1.02
+    private buckets = new Map<number, number>()
+    count = 0
+    max = 0
+    sum = 0
+
+    record(ms: number) {
+        const bucket = ms <= 1 ? 0 : Math.ceil(Math.log(ms) / Math.log(LatencyHistogram.GROWTH))
+        this.buckets.set(bucket, (this.buckets.get(bucket) ?? 0) + 1)
+        this.count++
+        this.max = Math.max(this.max, ms)
+        this.sum += ms
+    }
+
+    percentile(p: number): number {
+        if (this.count === 0) return 0
+        const rank = Math.ceil((p / 100) * this.count)
+        let seen = 0
+        for (const bucket of [...this.buckets.keys()].sort((a, b) => a - b)) {
+            seen += this.buckets.get(bucket) as number
+            if (seen >= rank) return Math.min(Math.pow(LatencyHistogram.GROWTH, bucket), this.max)
+        }
+        return this.max
+    }
+
+    // Summary plus the raw buckets (upper bound and count) for reports
+    distribution(): LatencyDistribution {
+        const round = (ms: number) => Math.round(ms * 100) / 100
+        return {
+            count: this.count,
+            meanMs: round(this.count === 0 ? 0 : this.sum / this.count),
+            p50Ms: round(this.percentile(50)),
+            p90Ms: round(this.percentile(90)),
+            p99Ms: round(this.percentile(99)),
+            maxMs: round(this.max),
+            buckets: [...this.buckets.entries()]
+                .sort(([a], [b]) => a - b)
+                .map(([bucket, count]) => ({ upToMs: round(Math.pow(LatencyHistogram.GROWTH, bucket)), count })),
+        }
+    }
+}
+
+interface LatencyDistribution {
+    count: number
+    meanMs: number
+    p50Ms: number
+    p90Ms: number
+    p99Ms: number
+    maxMs: number
+    buckets: { upToMs: number; count: number }[]
+}
+
+const ERROR_CATEGORIES = ["nonceTooLow", "underpriced", "timeout", "rpc", "other"] as const
+type ErrorCategory = typeof ERROR_CATEGORIES[number]
+
+const categorizeError = (error: unknown): ErrorCategory => {
+    const message = String((error as Error)?.message ?? error).toLowerCase()
+    if (/nonce too low|nonce has already been used/.test(message)) return "nonceTooLow"
+    if (/underpriced|fee too low|gas price too low/.test(message)) return "underpriced"
+    if ((error instanceof BaseError && error.walk((e) => e instanceof TimeoutError)) || /timed? ?out/.test(message)) {
+        return "timeout"
+    }
+    return exitCodeFor(error) === EXIT_CODES.rpc ? "rpc" : "other"
+}
+
+interface MethodStats {
+    success: number;
+    error: number;
+    errors: Record<ErrorCategory, number>;
+    latency: LatencyHistogram;
+}
+
+// Keyed by scenario operation name
 interface TestStats {
-    sendTransaction: { success: number; error: number };
-    getTransactionCount: { success: number; error: number };
-    getBalance: { success: number; error: number };
-    blockNumber: { success: number; error: number };
-    getTransactionByHash: { success: number; error: number };
+    [operation: string]: MethodStats;
 }
 
-const createTestAccounts = () => {
-    return Array(4).fill(0).map(() => {
+const createErrorCounts = () => Object.fromEntries(ERROR_CATEGORIES.map((category) => [category, 0])) as Record<ErrorCategory, number>
+
+const createMethodStats = (): MethodStats => ({ success: 0, error: 0, errors: createErrorCounts(), latency: new LatencyHistogram() })
+
+const createTestAccounts = (count: number) => {
+    return Array(count).fill(0).map(() => {
         const privateKey = generatePrivateKey()
         return privateKeyToAccount(privateKey)
     })
 }
 
+// Test accounts persisted as an HD wallet, so later runs reuse the same (already funded) addresses
+const loadAccountSet = async (name: string, count: number): Promise<PrivateKeyAccount[]> => {
+    if (walletExists(name)) {
+        throw new ValidationError(`"${name}" is a keystore wallet, not an account set`)
+    }
+    if (!hdWalletExists(name)) {
+        await createHdWallet(name)
+        console.error(`Created account set "${name}" as an HD wallet (wallet:export ${name} --mnemonic to back it up)`)
+    }
+    return deriveHdAccounts(name, Array.from({ length: count }, (_, index) => index))
+}
+
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
-interface QueuedRequest {
-    type: keyof TestStats;
-    operation: () => Promise<void>;
-}
+const formatMs = (ms: number): string => `${Math.round(ms)}ms`
 
-const updateStats = (stats: TestStats, lines: number) => {
+const formatLatency = (latency: LatencyHistogram): string =>
+    latency.count === 0
+        ? ""
+        : `p50 ${formatMs(latency.percentile(50))}  p90 ${formatMs(latency.percentile(90))}  p99 ${formatMs(latency.percentile(99))}`
+
+const updateStats = (stats: TestStats, lines: number, footer: string[]) => {
     // Find the longest key length for padding
     const maxKeyLength = Math.max(...Object.keys(stats).map(k => k.length))
     
-    process.stdout.write(`\x1b[${lines - 1}A\x1b[0J`)
+    process.stdout.write(`\x1b[${lines}A\x1b[0J`)
     console.log("Test Progress:")
-    Object.entries(stats).forEach(([key, value]) => {
+    Object.entries(stats).forEach(([key, value]: [string, MethodStats]) => {
         const paddedKey = key.padEnd(maxKeyLength)
         const successText = pc.green(value.success.toString())
         const errorText = pc.red(value.error.toString())
-        console.log(`${paddedKey}: ${successText} / ${errorText}`)
+        console.log(`${paddedKey}: ${successText} / ${errorText}  ${pc.dim(formatLatency(value.latency))}`)
+    })
+    footer.forEach((line) => console.log(line))
+}
+
+// Polls receipts of submitted transactions to measure submit-to-inclusion latency
+class InclusionTracker {
+    private pending = new Map<Hex, number>()
+    private polling = false
+    readonly latency = new LatencyHistogram()
+
+    constructor(private client: PublicClient, private batchSize = 50) {}
+
+    track(hash: Hex, submittedAt: number) {
+        this.pending.set(hash, submittedAt)
+    }
+
+    get pendingCount(): number {
+        return this.pending.size
+    }
+
+    async poll(): Promise<void> {
+        if (this.polling) return
+        this.polling = true
+        try {
+            const batch: [Hex, number][] = []
+            for (const entry of this.pending) {
+                if (batch.length === this.batchSize) break
+                batch.push(entry)
+            }
+            await Promise.all(batch.map(async ([hash, submittedAt]) => {
+                const receipt = await this.client.getTransactionReceipt({ hash }).catch(() => undefined)
+                this.pending.delete(hash)
+                if (receipt) {
+                    this.latency.record(performance.now() - submittedAt)
+                } else {
+                    // Back of the queue, so one stuck transaction can't starve the others
+                    this.pending.set(hash, submittedAt)
+                }
+            }))
+        } finally {
+            this.polling = false
+        }
+    }
+
+    async drain(timeoutMs: number): Promise<void> {
+        const deadline = Date.now() + timeoutMs
+        while (this.pending.size > 0 && Date.now() < deadline) {
+            await this.poll()
+            await wait(500)
+        }
+    }
+}
+
+// Workload scenarios: weighted operations issued over ramp/steady phases
+const SCENARIO_OPERATION_TYPES = ["transfer", "erc20Transfer", "contractCall", "read", "deploy"] as const
+const READ_METHODS = ["blockNumber", "getBalance", "getTransactionCount", "getTransactionByHash", "call"] as const
+
+interface ScenarioOperation {
+    type: typeof SCENARIO_OPERATION_TYPES[number]
+    name: string
+    weight: number
+    // transfer, erc20Transfer and contractCall; "$sender"/"$recipient" pick test accounts
+    to?: string
+    value?: string
+    gas?: number
+    // erc20Transfer
+    token?: string
+    amount?: string
+    // contractCall and read "call"
+    address?: string
+    function?: string
+    abi?: string
+    args?: unknown[]
+    // read
+    method?: typeof READ_METHODS[number]
+    // deploy
+    artifact?: string
+}
+
+interface ScenarioPhase {
+    name: string
+    duration: number
+    // Operations per second, constant or ramped linearly across the phase
+    tps: number | { from: number; to: number }
+}
+
+interface Scenario {
+    name?: string
+    accounts: number
+    funding: { amount: string; tokens: { token: Address; amount: string }[] }
+    phases: ScenarioPhase[]
+    operations: ScenarioOperation[]
+}
+
+const loadScenario = (file: string): Scenario => {
+    const fail = (message: string): never => {
+        throw new ValidationError(`Invalid scenario ${file}: ${message}`)
+    }
+    let raw: any
+    try {
+        raw = YAML.parse(fs.readFileSync(file, "utf-8"))
+    } catch (error) {
+        return fail((error as Error).message)
+    }
+    if (typeof raw !== "object" || raw === null) fail("expected a mapping at the top level")
+
+    // ABI and artifact paths are relative to the scenario file
+    const relative = (value: unknown) => typeof value === "string" ? path.resolve(path.dirname(file), value) : undefined
+    const isRate = (value: unknown) => typeof value === "number" && value >= 0
+
+    const accounts = raw.accounts ?? 4
+    if (!Number.isInteger(accounts) || accounts < 1) fail("accounts must be a positive integer")
+
+    const funding = { amount: String(raw.funding?.amount ?? "0.01"), tokens: raw.funding?.tokens ?? [] }
+    if (!/^\d+(\.\d+)?$/.test(funding.amount)) fail(`funding.amount "${funding.amount}" is not an ether amount`)
+    if (!Array.isArray(funding.tokens)) fail("funding.tokens must be a list")
+    funding.tokens.forEach((entry: any, i: number) => {
+        if (!isAddress(String(entry?.token))) fail(`funding.tokens[${i}].token is not an address`)
+        if (!/^\d+$/.test(String(entry?.amount))) fail(`funding.tokens[${i}].amount must be an integer in base units`)
+    })
+
+    if (!Array.isArray(raw.phases) || raw.phases.length === 0) fail("phases must be a non-empty list")
+    const phases: ScenarioPhase[] = raw.phases.map((phase: any, i: number) => {
+        if (!(phase?.duration > 0)) fail(`phases[${i}].duration must be a positive number of seconds`)
+        const ramp = typeof phase.tps === "object" && phase.tps !== null
+        if (ramp ? !isRate(phase.tps.from) || !isRate(phase.tps.to) : !isRate(phase.tps)) {
+            fail(`phases[${i}].tps must be a number or { from, to }`)
+        }
+        return { name: String(phase.name ?? `phase ${i + 1}`), duration: phase.duration, tps: phase.tps }
+    })
+
+    if (!Array.isArray(raw.operations) || raw.operations.length === 0) fail("operations must be a non-empty list")
+    const names = new Set<string>()
+    const operations: ScenarioOperation[] = raw.operations.map((op: any, i: number) => {
+        const where = `operations[${i}]`
+        if (!SCENARIO_OPERATION_TYPES.includes(op?.type)) {
+            fail(`${where}.type must be one of ${SCENARIO_OPERATION_TYPES.join(", ")}`)
+        }
+        const weight = op.weight ?? 1
+        if (!(typeof weight === "number" && weight > 0)) fail(`${where}.weight must be a positive number`)
+        if (op.args !== undefined && !Array.isArray(op.args)) fail(`${where}.args must be a list`)
+        if (op.type === "erc20Transfer" && (!isAddress(String(op.token)) || !/^\d+$/.test(String(op.amount)))) {
+            fail(`${where} needs a token address and an integer amount in base units`)
+        }
+        if (op.type === "read" && !READ_METHODS.includes(op.method)) {
+            fail(`${where}.method must be one of ${READ_METHODS.join(", ")}`)
+        }
+        if ((op.type === "contractCall" || op.method === "call") && (!isAddress(String(op.address)) || !op.function)) {
+            fail(`${where} needs an address and a function`)
+        }
+        if (op.type === "deploy" && !op.artifact) fail(`${where}.artifact is required`)
+
+        let name = String(op.name ?? (op.type === "read" ? op.method : op.type))
+        for (let n = 2; names.has(name); n++) name = `${op.name ?? op.type}#${n}`
+        names.add(name)
+        return {
+            ...op,
+            name,
+            weight,
+            ...(op.value !== undefined && { value: String(op.value) }),
+            ...(op.amount !== undefined && { amount: String(op.amount) }),
+            ...(op.abi && { abi: relative(op.abi) }),
+            ...(op.artifact && { artifact: relative(op.artifact) }),
+        }
     })
+
+    return { name: raw.name, accounts, funding, phases, operations }
+}
+
+// The mix test:network has always used: every transfer comes with one of four reads
+const defaultScenario = (tps: number, duration: number): Scenario => ({
+    accounts: 4,
+    funding: { amount: "0.01", tokens: [] },
+    phases: [{ name: "steady", duration, tps: tps * 2 }],
+    operations: [
+        { type: "transfer", name: "sendTransaction", weight: 4 },
+        { type: "read", name: "getTransactionCount", method: "getTransactionCount", weight: 1 },
+        { type: "read", name: "getBalance", method: "getBalance", weight: 1 },
+        { type: "read", name: "blockNumber", method: "blockNumber", weight: 1 },
+        { type: "read", name: "getTransactionByHash", method: "getTransactionByHash", weight: 1 },
+    ],
+})
+
+const phaseRates = (phase: ScenarioPhase): [number, number] =>
+    typeof phase.tps === "number" ? [phase.tps, phase.tps] : [phase.tps.from, phase.tps.to]
+
+// Number of operations the schedule calls for by `elapsed` seconds into the run
+const plannedOperations = (phases: ScenarioPhase[], elapsed: number): number => {
+    let total = 0
+    let start = 0
+    for (const phase of phases) {
+        const t = Math.min(Math.max(elapsed - start, 0), phase.duration)
+        const [from, to] = phaseRates(phase)
+        total += from * t + (to - from) * t * t / (2 * phase.duration)
+        start += phase.duration
+    }
+    return total
+}
+
+const phaseAt = (phases: ScenarioPhase[], elapsed: number): { index: number; phase: ScenarioPhase; rate: number } => {
+    let start = 0
+    for (const [index, phase] of phases.entries()) {
+        if (elapsed < start + phase.duration || index === phases.length - 1) {
+            const [from, to] = phaseRates(phase)
+            const progress = Math.min(Math.max((elapsed - start) / phase.duration, 0), 1)
+            return { index, phase, rate: from + (to - from) * progress }
+        }
+        start += phase.duration
+    }
+    throw new Error("Scenario has no phases")
+}
+
+interface OperationContext {
+    sender: PrivateKeyAccount
+    recipient: PrivateKeyAccount
+    lastHash?: Hex
+}
+
+interface CompiledOperation {
+    name: string
+    weight: number
+    sendsTransaction: boolean
+    // Transaction-sending operations return the hash so its inclusion can be tracked
+    run: (context: OperationContext) => Promise<Hex | void>
+}
+
+interface WorkloadRuntime {
+    client: PublicClient
+    mainAccount: PrivateKeyAccount
+    sample: OperationContext
+    send: (sender: PrivateKeyAccount, transaction: { to?: Address; data?: Hex; value?: bigint; gas: bigint }) => Promise<Hex>
+}
+
+const substitutePlaceholder = (value: unknown, context: OperationContext): unknown => {
+    if (value === "$sender") return context.sender.address
+    if (value === "$recipient") return context.recipient.address
+    return value
+}
+
+const erc20TransferAbi = [parseAbiItem("function transfer(address to, uint256 amount) returns (bool)")]
+const erc20BalanceOfAbi = [parseAbiItem("function balanceOf(address owner) view returns (uint256)")]
+
+// Gas is estimated once up front, from the main account, with a 20% margin
+const estimateOperationGas = async (
+    op: ScenarioOperation,
+    runtime: WorkloadRuntime,
+    request: { to?: Address; data?: Hex; value?: bigint }
+): Promise<bigint> => {
+    if (op.gas) return BigInt(op.gas)
+    try {
+        const estimate = await runtime.client.estimateGas({ account: runtime.mainAccount.address, ...request })
+        return estimate * BigInt(12) / BigInt(10)
+    } catch (error) {
+        throw new ValidationError(`Could not estimate gas for operation "${op.name}", set "gas" in the scenario: ${(error as BaseError).shortMessage ?? error}`)
+    }
+}
+
+const compileOperation = async (op: ScenarioOperation, runtime: WorkloadRuntime): Promise<CompiledOperation> => {
+    const { client, sample } = runtime
+    const args = op.args ?? []
+    const compiled = (sendsTransaction: boolean, run: CompiledOperation["run"]): CompiledOperation =>
+        ({ name: op.name, weight: op.weight, sendsTransaction, run })
+    const target = (context: OperationContext) => (op.to ? substitutePlaceholder(op.to, context) : context.recipient.address) as Address
+    const value = op.value ? parseEther(op.value) : undefined
+
+    switch (op.type) {
+        case "transfer": {
+            const gas = BigInt(op.gas ?? 21000)
+            const amount = value ?? parseEther("0.0001")
+            return compiled(true, (context) => runtime.send(context.sender, { to: target(context), value: amount, gas }))
+        }
+        case "erc20Transfer": {
+            const token = op.token as Address
+            const data = (context: OperationContext) => encodeFunctionData({
+                abi: erc20TransferAbi,
+                functionName: "transfer",
+                args: [target(context), BigInt(op.amount as string)],
+            })
+            const gas = await estimateOperationGas(op, runtime, { to: token, data: data(sample) })
+            return compiled(true, (context) => runtime.send(context.sender, { to: token, data: data(context), gas }))
+        }
+        case "contractCall": {
+            const address = op.address as Address
+            const { abi, item } = resolveContractFunction(
+                op.function as string, args.map((arg) => substitutePlaceholder(arg, sample)), op.abi, "nonpayable")
+            const data = (context: OperationContext) => encodeFunctionData({
+                abi,
+                functionName: item.name,
+                args: item.inputs.map((param, i) => parseAbiArgument(param, substitutePlaceholder(args[i], context))),
+            })
+            const gas = await estimateOperationGas(op, runtime, { to: address, data: data(sample), value })
+            return compiled(true, (context) => runtime.send(context.sender, { to: address, data: data(context), value, gas }))
+        }
+        case "deploy": {
+            const artifact = loadDeployArtifact({ artifact: op.artifact })
+            const inputs = artifact.abi.find((item) => item.type === "constructor")?.inputs ?? []
+            if (inputs.length !== args.length) {
+                throw new ValidationError(`Operation "${op.name}": constructor takes ${inputs.length} argument(s), got ${args.length}`)
+            }
+            const data = (context: OperationContext) => encodeDeployData({
+                abi: artifact.abi,
+                bytecode: artifact.bytecode,
+                args: inputs.map((param, i) => parseAbiArgument(param, substitutePlaceholder(args[i], context))),
+            })
+            const gas = await estimateOperationGas(op, runtime, { data: data(sample), value })
+            return compiled(true, (context) => runtime.send(context.sender, { data: data(context), value, gas }))
+        }
+        case "read":
+            switch (op.method) {
+                case "getBalance":
+                    return compiled(false, (context) => client.getBalance({ address: target(context) }).then(() => {}))
+                case "getTransactionCount":
+                    return compiled(false, (context) => client.getTransactionCount({ address: target(context) }).then(() => {}))
+                case "getTransactionByHash":
+                    // Looks up an earlier transaction of the run; before there is one, falls back to a cheap read
+                    return compiled(false, (context) => context.lastHash
+                        ? client.getTransaction({ hash: context.lastHash }).then(() => {})
+                        : client.getBlockNumber().then(() => {}))
+                case "call": {
+                    const address = op.address as Address
+                    const { abi, item } = resolveContractFunction(
+                        op.function as string, args.map((arg) => substitutePlaceholder(arg, sample)), op.abi, "view")
+                    return compiled(false, (context) => client.call({
+                        to: address,
+                        data: encodeFunctionData({
+                            abi,
+                            functionName: item.name,
+                            args: item.inputs.map((param, i) => parseAbiArgument(param, substitutePlaceholder(args[i], context))),
+                        }),
+                    }).then(() => {}))
+                }
+                default:
+                    return compiled(false, () => client.getBlockNumber().then(() => {}))
+            }
+    }
+}
+
+const pickOperation = (operations: CompiledOperation[], totalWeight: number): CompiledOperation => {
+    let roll = Math.random() * totalWeight
+    for (const operation of operations) {
+        roll -= operation.weight
+        if (roll < 0) return operation
+    }
+    return operations[operations.length - 1]
+}
+
+// Written by test:network --report and read back by test:compare
+const REPORT_VERSION = 1
+
+interface TimeseriesPoint {
+    second: number
+    targetRate: number
+    issued: number
+    succeeded: number
+    failed: number
+    submitted: number
+    included: number
+    inFlight: number
+    p50Ms: number
+    p99Ms: number
+}
+
+interface TestSummary {
+    scenario?: string
+    targetRate: number
+    issuedRate: number
+    targetTps: number
+    achievedTps: number
+    transactionsSubmitted: number
+    transactionsIncluded: number
+    transactionsNotIncluded: number
+    accounts: number
+    durationSeconds: number
+}
+
+interface TestReport {
+    version: typeof REPORT_VERSION
+    startedAt: string
+    finishedAt: string
+    config: {
+        network: string
+        rpcUrl: string
+        chainId: number
+        accounts: number
+        inclusionTimeout: number
+        scenario: Scenario
+    }
+    summary: TestSummary
+    methods: { [operation: string]: { success: number; error: number; errors: Record<ErrorCategory, number>; latency: LatencyDistribution } }
+    inclusion: { included: number; notIncluded: number; latency: LatencyDistribution }
+    errors: Record<ErrorCategory, number>
+    timeseries: TimeseriesPoint[]
+}
+
+const readReport = (file: string): TestReport => {
+    const report = readJsonFile(file)
+    if (report?.version !== REPORT_VERSION || typeof report.summary !== "object" || typeof report.methods !== "object") {
+        throw new ValidationError(`${file} is not a test:network report (version ${REPORT_VERSION})`)
+    }
+    return report
 }
 
 // Add this before the test:network command
@@ -453,185 +5001,316 @@ const initializeNonces = async (
 };
 
 // Add the test command
-program
-    .command("test:network")
+addSigningOptions(program.command("test:network"), "Main (funding)")
     .description("Run network test")
-    .requiredOption("-t, --tps <number>", "Transactions per second")
-    .requiredOption("-d, --duration <seconds>", "Test duration in seconds")
+    .option("-t, --tps <number>", "Transactions per second")
+    .option("-d, --duration <seconds>", "Test duration in seconds")
+    .option("-s, --scenario <file>", "JSON/YAML workload scenario (instead of --tps and --duration)")
+    .option("-a, --accounts <number>", "Number of sender accounts (default: 4, or the scenario's)")
+    .option("--inclusion-timeout <seconds>", "How long to keep polling receipts after the test ends", "30")
+    .option("--report <file>", "Write a JSON report with time series, error categories and latency distributions")
+    .option("--account-set <name>", "Reuse test accounts from this HD wallet (created on first use), topping them up instead of refunding")
+    .option("--refund", "Return the test accounts' balances even with --account-set")
     .action(async (options) => {
         try {
-            const config = loadConfig()
-            if (!config.privateKey) {
-                throw new Error("Private key not configured")
+            if (options.scenario && (options.tps || options.duration)) {
+                throw new ValidationError("--tps and --duration can't be combined with --scenario")
+            }
+            if (!options.scenario && !(Number(options.tps) > 0 && Number(options.duration) > 0)) {
+                throw new ValidationError("--tps and --duration (positive numbers) are required unless --scenario is given")
+            }
+            const scenario = options.scenario
+                ? loadScenario(options.scenario)
+                : defaultScenario(Number(options.tps), Number(options.duration))
+            const accountCount = options.accounts === undefined ? scenario.accounts : Number(options.accounts)
+            const inclusionTimeout = Number(options.inclusionTimeout)
+            if (!Number.isInteger(accountCount) || accountCount < 1 || !(inclusionTimeout >= 0)) {
+                throw new ValidationError("--accounts must be a positive integer and --inclusion-timeout a number of seconds")
             }
+            const duration = scenario.phases.reduce((sum, phase) => sum + phase.duration, 0)
 
-            const tps = parseInt(options.tps)
-            const duration = parseInt(options.duration)
-            const requestsPerTick = Math.ceil(tps / 4)
-            const mainAccount = privateKeyToAccount(`0x${config.privateKey.replace("0x", "")}`)
-            const testAccounts = createTestAccounts()
-            const client = createPublicClient({ transport: http(config.rpcUrl) })
+            const config = loadConfig()
+            const network = resolveNetwork(config)
+            const mainAccount = await loadSigningAccount(config, network, options.account)
+            const testAccounts = options.accountSet
+                ? await loadAccountSet(options.accountSet, accountCount)
+                : createTestAccounts(accountCount)
+            const client = getPublicClient(network)
+            await assertExpectedChain(client, network)
             const walletClient = createWalletClient({
                 account: mainAccount,
-                transport: http(config.rpcUrl),
+                transport: getTransport(network),
             })
+            // Live progress only makes sense on a terminal table; machine-readable runs print just the summary
+            const { format, quiet } = getOutputOptions()
+            const interactive = format === "table" && !quiet
+            const log = interactive ? console.log : () => {}
 
             // Initialize test accounts with some funds
-            console.log("\n=== Initializing Test Accounts ===")
+            log("\n=== Initializing Test Accounts ===")
+            // Sent one after another so nonces arrive in order, then confirmed together.
+            // Accounts from a set only get topped up to the funding amounts.
+            const fundingHashes: Hex[] = []
             for (const account of testAccounts) {
                 try {
-                    const hash = await walletClient.sendTransaction({
-                        to: account.address,
-                        value: parseEther("0.01"),
-                        chain: null,
-                    })
-                    console.log(`Funded ${account.address} (tx: ${hash})`)
-                    await wait(1000) // Wait for transaction to be processed
+                    const target = parseEther(scenario.funding.amount)
+                    const balance = options.accountSet ? await client.getBalance({ address: account.address }) : BigInt(0)
+                    if (balance < target) {
+                        const hash = await walletClient.sendTransaction({
+                            to: account.address,
+                            value: target - balance,
+                            chain: null,
+                        })
+                        fundingHashes.push(hash)
+                        log(`Funded ${account.address} with ${formatEther(target - balance)} (tx: ${hash})`)
+                    } else {
+                        log(`${account.address} already holds ${formatEther(balance)}`)
+                    }
                 } catch (error) {
                     console.error(`Failed to fund ${account.address}:`, error)
                 }
+                for (const { token, amount } of scenario.funding.tokens) {
+                    try {
+                        const held = options.accountSet
+                            ? await client.readContract({ address: token, abi: erc20BalanceOfAbi, functionName: "balanceOf", args: [account.address] })
+                            : BigInt(0)
+                        if (held >= BigInt(amount)) continue
+                        fundingHashes.push(await walletClient.sendTransaction({
+                            to: token,
+                            data: encodeFunctionData({
+                                abi: erc20TransferAbi,
+                                functionName: "transfer",
+                                args: [account.address, BigInt(amount) - held],
+                            }),
+                            chain: null,
+                        }))
+                        log(`Sent ${BigInt(amount) - held} of token ${token} to ${account.address}`)
+                    } catch (error) {
+                        console.error(`Failed to send token ${token} to ${account.address}:`, error)
+                    }
+                }
             }
+            await Promise.allSettled(fundingHashes.map((hash) => client.waitForTransactionReceipt({ hash, timeout: 60000 })))
 
-            // Rest of initialization code remains the same...
-            console.log("\n=== Initializing Nonces ===")
+            log("\n=== Initializing Nonces ===")
             const nonceManager = new NonceManager();
             await nonceManager.initialize(client, [...testAccounts, mainAccount]);
 
-            console.log("\n=== Starting Network Test ===")
-            // ...existing logging code...
+            // Transactions are signed locally with precomputed gas so each one costs exactly one RPC call
+            const chainId = await client.getChainId()
+            const gasPrice = await client.getGasPrice()
+            const runtime: WorkloadRuntime = {
+                client,
+                mainAccount,
+                sample: { sender: testAccounts[0], recipient: testAccounts[0] },
+                send: async (sender, transaction) => {
+                    const nonce = await nonceManager.getNextNonce(sender.address)
+                    const serializedTransaction = await sender.signTransaction({
+                        ...transaction,
+                        gasPrice,
+                        nonce,
+                        chainId,
+                    })
+                    return client.sendRawTransaction({ serializedTransaction })
+                },
+            }
+            const operations: CompiledOperation[] = []
+            for (const op of scenario.operations) {
+                operations.push(await compileOperation(op, runtime))
+            }
+            const totalWeight = operations.reduce((sum, op) => sum + op.weight, 0)
+            const transactionShare = operations
+                .filter((op) => op.sendsTransaction)
+                .reduce((sum, op) => sum + op.weight, 0) / totalWeight
+            const targetRate = plannedOperations(scenario.phases, duration) / duration
+
+            log("\n=== Starting Network Test ===")
+            log(`${scenario.name ? `Scenario "${scenario.name}": ` : ""}${scenario.phases.length} phase(s), ` +
+                `${duration}s, ${operations.length} operation type(s) from ${accountCount} accounts`)
+
+            const stats: TestStats = Object.fromEntries(operations.map((op) => [op.name, createMethodStats()]))
+            const inclusion = new InclusionTracker(client)
+            const inFlight = new Set<Promise<void>>()
+            let issued = 0
+            let submitted = 0
+            let lastHash: Hex | undefined
 
-            const stats: TestStats = {
-                sendTransaction: { success: 0, error: 0 },
-                getTransactionCount: { success: 0, error: 0 },
-                getBalance: { success: 0, error: 0 },
-                blockNumber: { success: 0, error: 0 },
-                getTransactionByHash: { success: 0, error: 0 }
+            // Per-second counters for the report; responses count towards the second they arrive in
+            const timeseries: TimeseriesPoint[] = []
+            let interval = { issued: 0, succeeded: 0, failed: 0, submitted: 0, latency: new LatencyHistogram() }
+
+            const execute = (operation: CompiledOperation) => {
+                const context: OperationContext = {
+                    sender: testAccounts[Math.floor(Math.random() * testAccounts.length)],
+                    recipient: testAccounts[Math.floor(Math.random() * testAccounts.length)],
+                    lastHash,
+                }
+                const started = performance.now()
+                const request: Promise<void> = operation.run(context)
+                    .then((hash) => {
+                        const elapsed = performance.now() - started
+                        stats[operation.name].success++
+                        stats[operation.name].latency.record(elapsed)
+                        interval.succeeded++
+                        interval.latency.record(elapsed)
+                        if (hash) {
+                            submitted++
+                            interval.submitted++
+                            lastHash = hash
+                            inclusion.track(hash, started)
+                        }
+                    })
+                    .catch((error) => {
+                        stats[operation.name].error++
+                        stats[operation.name].errors[categorizeError(error)]++
+                        interval.failed++
+                    })
+                    .finally(() => { inFlight.delete(request) })
+                inFlight.add(request)
+            }
+
+            const summaryLines = (elapsedSeconds: number): string[] => {
+                const { index, phase, rate } = phaseAt(scenario.phases, elapsedSeconds)
+                return [
+                    `Phase     : ${phase.name} (${index + 1}/${scenario.phases.length}), target ${rate.toFixed(1)} ops/s`,
+                    `Rate      : issued ${(issued / elapsedSeconds).toFixed(1)} ops/s, ` +
+                        `achieved ${(submitted / elapsedSeconds).toFixed(1)} tx/s, in flight ${inFlight.size}`,
+                    `Inclusion : ${inclusion.latency.count} included, ${inclusion.pendingCount} pending  ` +
+                        pc.dim(formatLatency(inclusion.latency)),
+                ]
             }
 
             // Initialize display
-            Object.entries(stats).forEach(() => console.log())
-            const statsLines = Object.keys(stats).length + 2
+            const statsLines = 1 + Object.keys(stats).length + summaryLines(1).length
+            if (interactive) {
+                Array(statsLines).fill(0).forEach(() => console.log())
+            }
 
             let lastStatsUpdate = Date.now()
+            let lastPoll = Date.now()
             const startTime = Date.now()
+            let includedBefore = 0
+            const closeInterval = () => {
+                const second = timeseries.length + 1
+                timeseries.push({
+                    second,
+                    targetRate: Number(phaseAt(scenario.phases, second - 0.5).rate.toFixed(2)),
+                    issued: interval.issued,
+                    succeeded: interval.succeeded,
+                    failed: interval.failed,
+                    submitted: interval.submitted,
+                    included: inclusion.latency.count - includedBefore,
+                    inFlight: inFlight.size,
+                    p50Ms: Math.round(interval.latency.percentile(50)),
+                    p99Ms: Math.round(interval.latency.percentile(99)),
+                })
+                includedBefore = inclusion.latency.count
+                interval = { issued: 0, succeeded: 0, failed: 0, submitted: 0, latency: new LatencyHistogram() }
+            }
             const endTime = startTime + (duration * 1000)
 
-            // Modified request execution
+            // Open loop: requests are issued on schedule however many are still in flight,
+            // so a slow node shows up as latency and errors instead of a lower send rate
             while (Date.now() < endTime) {
-                const batchPromises = []
-                for (let i = 0; i < requestsPerTick; i++) {
-                    const targetAccount = testAccounts[Math.floor(Math.random() * testAccounts.length)]
-                    const senderAccount = testAccounts[Math.floor(Math.random() * testAccounts.length)]
-                    const operations: QueuedRequest[] = []
-
-                    // Add a transaction
-                    operations.push({
-                        type: 'sendTransaction' as keyof TestStats,
-                        operation: async () => {
-                            const senderClient = createWalletClient({
-                                account: senderAccount,
-                                transport: http(config.rpcUrl),
-                            })
-                            const nonce = await nonceManager.getNextNonce(senderAccount.address)
-                            await senderClient.sendTransaction({
-                                to: targetAccount.address,
-                                value: parseEther("0.0001"),
-                                chain: null,
-                                nonce
-                            })
-                        }
-                    })
-
-                    // Add a random additional operation
-                    const op = Math.floor(Math.random() * 4)
-                    switch (op) {
-                        case 0:
-                            operations.push({
-                                type: 'getTransactionCount' as keyof TestStats,
-                                operation: () => client.getTransactionCount({ address: targetAccount.address }).then(() => {})
-                            })
-                            break
-                        case 1:
-                            operations.push({
-                                type: 'getBalance' as keyof TestStats,
-                                operation: () => client.getBalance({ address: targetAccount.address }).then(() => {})
-                            })
-                            break
-                        case 2:
-                            operations.push({
-                                type: 'blockNumber' as keyof TestStats,
-                                operation: () => client.getBlockNumber().then(() => {})
-                            })
-                            break
-                        case 3:
-                            operations.push({
-                                type: 'getTransactionByHash' as keyof TestStats,
-                                operation: async () => {
-                                    const senderClient = createWalletClient({
-                                        account: senderAccount,
-                                        transport: http(config.rpcUrl),
-                                    })
-                                    const nonce = await nonceManager.getNextNonce(senderAccount.address)
-                                    const hash = await senderClient.sendTransaction({
-                                        to: targetAccount.address,
-                                        value: parseEther("0.0001"),
-                                        chain: null,
-                                        nonce
-                                    })
-                                    await client.getTransaction({ hash })
-                                }
-                            })
-                            break
-                    }
+                const now = Date.now()
+                const due = Math.floor(plannedOperations(scenario.phases, (now - startTime) / 1000))
+                while (issued < due) {
+                    execute(pickOperation(operations, totalWeight))
+                    issued++
+                    interval.issued++
+                }
 
-                    // Execute operations
-                    for (const { type, operation } of operations) {
-                        batchPromises.push(
-                            operation()
-                                .then(() => { stats[type].success++ })
-                                .catch(() => { stats[type].error++ })
-                        )
-                    }
+                if (now - startTime >= (timeseries.length + 1) * 1000) {
+                    closeInterval()
                 }
 
-                // Wait for batch to complete
-                await Promise.allSettled(batchPromises)
+                if (now - lastPoll >= 500) {
+                    inclusion.poll()
+                    lastPoll = now
+                }
 
                 // Update stats display
-                const now = Date.now()
-                if (now - lastStatsUpdate >= 1000) {
-                    updateStats(stats, statsLines)
+                if (interactive && now - lastStatsUpdate >= 1000) {
+                    updateStats(stats, statsLines, summaryLines((now - startTime) / 1000))
                     lastStatsUpdate = now
                 }
 
-                // Add small delay to prevent overwhelming the node
-                await wait(250)
+                await wait(10)
             }
 
-            // Rest of cleanup code remains the same...
-            console.log("\n=== Test Complete ===")
-            console.log("Returning balances to main account...")
+            const testSeconds = (Date.now() - startTime) / 1000
+            await Promise.allSettled([...inFlight])
+            if (interval.issued + interval.succeeded + interval.failed > 0) {
+                closeInterval()
+            }
+            const achievedTps = submitted / testSeconds
+            if (interactive) {
+                updateStats(stats, statsLines, summaryLines(testSeconds))
+                console.log(`\nWaiting up to ${inclusionTimeout}s for ${inclusion.pendingCount} pending receipts...`)
+            }
+            await inclusion.drain(inclusionTimeout * 1000)
 
-            // Return balances
-            for (const account of testAccounts) {
+            log("\n=== Test Complete ===")
+            const methodRows = [
+                ...Object.entries(stats).map(([method, value]: [string, MethodStats]) => ({ method, ...value })),
+                { method: "inclusion", success: inclusion.latency.count, error: inclusion.pendingCount, latency: inclusion.latency },
+            ].map(({ method, success, error, latency }) => ({
+                method,
+                success,
+                error,
+                p50Ms: Math.round(latency.percentile(50)),
+                p90Ms: Math.round(latency.percentile(90)),
+                p99Ms: Math.round(latency.percentile(99)),
+                maxMs: Math.round(latency.max),
+            }))
+            const summary: TestSummary = {
+                ...(scenario.name && { scenario: scenario.name }),
+                targetRate: Number(targetRate.toFixed(2)),
+                issuedRate: Number((issued / testSeconds).toFixed(2)),
+                targetTps: Number((targetRate * transactionShare).toFixed(2)),
+                achievedTps: Number(achievedTps.toFixed(2)),
+                transactionsSubmitted: submitted,
+                transactionsIncluded: inclusion.latency.count,
+                transactionsNotIncluded: inclusion.pendingCount,
+                accounts: accountCount,
+                durationSeconds: Number(testSeconds.toFixed(1)),
+            }
+            if (format === "table" && !quiet) {
+                formatList(methodRows, ["Method", "Success", "Error", "p50 (ms)", "p90 (ms)", "p99 (ms)", "Max (ms)"])
+                formatOutput(summary)
+            } else if (format === "csv" && !quiet) {
+                formatList(methodRows, [])
+            } else {
+                formatOutput({ ...summary, methods: methodRows }, "achievedTps")
+            }
+
+            // Account sets keep their funds for the next run
+            const refund = !options.accountSet || options.refund
+            if (refund) log("Returning balances to main account...")
+
+            // Return balances. With EIP-1559 fees the whole max fee must be covered, so whatever the base fee
+            // leaves unspent stays behind in the account.
+            const refundFees = refund ? await suggestFees(client) : undefined
+            for (const account of refundFees ? testAccounts : []) {
                 try {
                     const balance = await client.getBalance({ address: account.address })
                     if (balance > 0) {
-                        const gasPrice = await client.getGasPrice()
-                        const gasLimit = 21000
-                        const gasCost = gasPrice * BigInt(gasLimit)
-                        const transferAmount = balance - gasCost
+                        const gasLimit = BigInt(21000)
+                        const transferAmount = balance - maxGasCost(refundFees as FeeParams, gasLimit)
 
                         if (transferAmount > 0) {
-                            const nonce = await nonceManager.getNextNonce(account.address)
+                            // Failed sends leave gaps in the managed nonces, so ask the node
+                            const nonce = await client.getTransactionCount({ address: account.address, blockTag: "pending" })
                             const hash = await walletClient.sendTransaction({
                                 to: mainAccount.address,
                                 value: transferAmount,
                                 account,
                                 chain: null,
+                                gas: gasLimit,
+                                ...refundFees,
                                 nonce
                             })
-                            console.log(`Returned ${formatEther(transferAmount)} ETH from ${account.address}`)
+                            log(`Returned ${formatEther(transferAmount)} ETH from ${account.address}`)
                         }
                     }
                 } catch (error) {
@@ -643,29 +5322,368 @@ program
                 }
             }
 
+            if (options.report) {
+                const report: TestReport = {
+                    version: REPORT_VERSION,
+                    startedAt: new Date(startTime).toISOString(),
+                    finishedAt: new Date().toISOString(),
+                    config: {
+                        network: network.name,
+                        rpcUrl: network.rpcUrl,
+                        chainId,
+                        accounts: accountCount,
+                        inclusionTimeout,
+                        scenario,
+                    },
+                    summary,
+                    methods: Object.fromEntries(Object.entries(stats).map(([name, value]) => [name, {
+                        success: value.success,
+                        error: value.error,
+                        errors: value.errors,
+                        latency: value.latency.distribution(),
+                    }])),
+                    inclusion: {
+                        included: inclusion.latency.count,
+                        notIncluded: inclusion.pendingCount,
+                        latency: inclusion.latency.distribution(),
+                    },
+                    errors: Object.values(stats).reduce((totals, value) => {
+                        ERROR_CATEGORIES.forEach((category) => { totals[category] += value.errors[category] })
+                        return totals
+                    }, createErrorCounts()),
+                    timeseries,
+                }
+                fs.writeFileSync(options.report, JSON.stringify(report, null, 2) + "\n")
+                log(`Report written to ${options.report}`)
+            }
+
             const finalBalance = await client.getBalance({ address: mainAccount.address })
-            console.log(`\nMain account final balance: ${formatEther(finalBalance)} ETH`)
+            log(`\nMain account final balance: ${formatEther(finalBalance)} ETH`)
+
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+interface ComparisonRow {
+    metric: string
+    baseline: number | string
+    current: number | string
+    change: string
+    status: "ok" | "regression" | "added" | "removed"
+}
+
+interface RegressionThresholds {
+    tpsDrop: number
+    latencyIncrease: number
+    minLatencyDelta: number
+    errorRateIncrease: number
+}
+
+const percentChange = (baseline: number, current: number): string => {
+    if (baseline === 0) return current === 0 ? "0%" : "n/a"
+    const change = (current - baseline) / baseline * 100
+    return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`
+}
+
+const errorRate = (success: number, error: number): number =>
+    success + error === 0 ? 0 : Number((error / (success + error) * 100).toFixed(2))
+
+const compareReports = (baseline: TestReport, current: TestReport, thresholds: RegressionThresholds): ComparisonRow[] => {
+    const rows: ComparisonRow[] = []
+    const throughput = (metric: string, before: number, after: number) => rows.push({
+        metric,
+        baseline: before,
+        current: after,
+        change: percentChange(before, after),
+        status: after < before * (1 - thresholds.tpsDrop / 100) ? "regression" : "ok",
+    })
+    const failures = (metric: string, before: number, after: number) => rows.push({
+        metric,
+        baseline: before,
+        current: after,
+        change: `${after >= before ? "+" : ""}${(after - before).toFixed(2)} pts`,
+        status: after - before > thresholds.errorRateIncrease ? "regression" : "ok",
+    })
+    // Small absolute changes are noise however large they are relatively
+    const latency = (metric: string, before: LatencyDistribution, after: LatencyDistribution) => {
+        if (before.count === 0 || after.count === 0) return
+        for (const [key, label] of [["p50Ms", "p50"], ["p99Ms", "p99"]] as const) {
+            const regressed = after[key] > before[key] * (1 + thresholds.latencyIncrease / 100)
+                && after[key] - before[key] > thresholds.minLatencyDelta
+            rows.push({
+                metric: `${metric} ${label} (ms)`,
+                baseline: before[key],
+                current: after[key],
+                change: percentChange(before[key], after[key]),
+                status: regressed ? "regression" : "ok",
+            })
+        }
+    }
+
+    throughput("achievedTps", baseline.summary.achievedTps, current.summary.achievedTps)
+    failures("inclusion not-included (%)", errorRate(baseline.inclusion.included, baseline.inclusion.notIncluded),
+        errorRate(current.inclusion.included, current.inclusion.notIncluded))
+    latency("inclusion", baseline.inclusion.latency, current.inclusion.latency)
+    for (const name of new Set([...Object.keys(baseline.methods), ...Object.keys(current.methods)])) {
+        const before = baseline.methods[name]
+        const after = current.methods[name]
+        if (!before || !after) {
+            rows.push({ metric: name, baseline: before ? "yes" : "-", current: after ? "yes" : "-", change: "", status: before ? "removed" : "added" })
+            continue
+        }
+        failures(`${name} error rate (%)`, errorRate(before.success, before.error), errorRate(after.success, after.error))
+        latency(name, before.latency, after.latency)
+    }
+    return rows
+}
+
+program
+    .command("test:compare")
+    .description("Compare two test:network reports and flag regressions")
+    .argument("<baseline>", "Baseline report file")
+    .argument("<current>", "Report to check against the baseline")
+    .option("--tps-drop <percent>", "Allowed drop in achieved TPS", "10")
+    .option("--latency-increase <percent>", "Allowed increase in p50/p99 latency", "20")
+    .option("--min-latency-delta <ms>", "Ignore latency increases smaller than this", "5")
+    .option("--error-rate-increase <points>", "Allowed increase in error rate, in percentage points", "1")
+    .action(async (baselineFile, currentFile, options) => {
+        try {
+            const thresholds: RegressionThresholds = {
+                tpsDrop: Number(options.tpsDrop),
+                latencyIncrease: Number(options.latencyIncrease),
+                minLatencyDelta: Number(options.minLatencyDelta),
+                errorRateIncrease: Number(options.errorRateIncrease),
+            }
+            if (Object.values(thresholds).some((value) => !(value >= 0))) {
+                throw new ValidationError("Thresholds must be non-negative numbers")
+            }
+            const baseline = readReport(baselineFile)
+            const current = readReport(currentFile)
+            if (JSON.stringify(baseline.config.scenario) !== JSON.stringify(current.config.scenario)) {
+                console.error(pc.yellow("Warning: the reports were produced with different workloads"))
+            }
+
+            const rows = compareReports(baseline, current, thresholds)
+            const regressions = rows.filter((row) => row.status === "regression")
+            const { quiet } = getOutputOptions()
+            // Quiet mode lists only the regressed metrics
+            formatList(quiet ? regressions : rows, ["Metric", "Baseline", "Current", "Change", "Status"], "metric")
+            if (regressions.length > 0) {
+                if (!quiet) console.error(pc.red(`${regressions.length} regression(s) against ${baselineFile}`))
+                process.exitCode = EXIT_CODES.regression
+            }
+        } catch (error) {
+            handleError(error)
+        }
+    })
+
+// Chain statistics: what the chain processed in a block range, as opposed to what a test client observed
+interface BlockStats {
+    number: string
+    timestamp: string
+    // Seconds since the previous block; undefined for block 0
+    interval?: number
+    transactions: number
+    gasUsed: string
+    gasLimit: string
+    utilization: number
+}
+
+// Unix seconds or anything Date.parse accepts ("2026-01-31T12:00:00Z")
+const parseTimestamp = (value: string, option: string): number => {
+    const seconds = /^\d+$/.test(value) ? Number(value) : Date.parse(value) / 1000
+    if (!Number.isFinite(seconds)) throw new ValidationError(`Invalid ${option}: ${value} (use unix seconds or an ISO date)`)
+    return seconds
+}
+
+// Binary search for the first block at or after `seconds`; latest + 1 when there is none yet
+const firstBlockAtOrAfter = async (client: PublicClient, seconds: number, latest: bigint): Promise<bigint> => {
+    let low = BigInt(0)
+    let high = latest + BigInt(1)
+    while (low < high) {
+        const middle = (low + high) / BigInt(2)
+        const block = await client.getBlock({ blockNumber: middle })
+        if (Number(block.timestamp) < seconds) low = middle + BigInt(1)
+        else high = middle
+    }
+    return low
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// min/mean/p50/p90/max of a list of numbers, all zero when it is empty
+const describeValues = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b)
+    const at = (p: number) => sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+    return {
+        min: round2(sorted[0] ?? 0),
+        mean: round2(sorted.length === 0 ? 0 : sorted.reduce((total, value) => total + value, 0) / sorted.length),
+        p50: round2(at(50)),
+        p90: round2(at(90)),
+        max: round2(sorted[sorted.length - 1] ?? 0),
+    }
+}
+
+program
+    .command("chain:stats")
+    .description("Block times, transactions per block, TPS, gas usage and empty blocks over a block range or time window")
+    .option("--from <block>", "First block")
+    .option("--to <block>", "Last block (number or latest)")
+    .option("--last <count>", "The last <count> blocks up to --to or --until", "100")
+    .option("--since <time>", "First block at or after this time (unix seconds or ISO date)")
+    .option("--until <time>", "Last block at or before this time (unix seconds or ISO date)")
+    .option("--report <file>", "Use the time window of a test:network report and compare with its client-side TPS")
+    .option("-c, --concurrency <number>", "Blocks fetched at once", "10")
+    .option("--per-block", "List every block instead of only the summary")
+    .action(async (options) => {
+        try {
+            const concurrency = Number(options.concurrency)
+            if (!Number.isInteger(concurrency) || concurrency < 1) throw new ValidationError(`Invalid concurrency: ${options.concurrency}`)
+            if (options.report && (options.since || options.until)) {
+                throw new ValidationError("--report sets the time window; use it without --since and --until")
+            }
+            if ((options.since || options.until || options.report) && (options.from || options.to)) {
+                throw new ValidationError("Select blocks either by number (--from/--to/--last) or by time (--since/--until/--report)")
+            }
+            const report = options.report ? readReport(options.report) : undefined
+            const since = report ? Date.parse(report.startedAt) / 1000 : options.since ? parseTimestamp(options.since, "--since") : undefined
+            const until = report ? Date.parse(report.finishedAt) / 1000 : options.until ? parseTimestamp(options.until, "--until") : undefined
+            if (since !== undefined && until !== undefined && since > until) throw new ValidationError("--since is after --until")
 
+            const network = resolveNetwork()
+            const client = getPublicClient(network)
+            const [chainId, latest] = await Promise.all([client.getChainId(), client.getBlockNumber()])
+            if (report && report.config.chainId !== chainId) {
+                console.error(pc.yellow(`Warning: ${options.report} was recorded on chain ${report.config.chainId}, not ${chainId}`))
+            }
+
+            const lastBlocks = (end: bigint): bigint => {
+                const count = Number(options.last)
+                if (!Number.isInteger(count) || count < 1) throw new ValidationError(`Invalid --last: ${options.last}`)
+                return end >= BigInt(count - 1) ? end - BigInt(count - 1) : BigInt(0)
+            }
+            let fromBlock: bigint
+            let toBlock: bigint
+            if (since !== undefined || until !== undefined) {
+                // Block timestamps are whole seconds
+                toBlock = until !== undefined ? await firstBlockAtOrAfter(client, Math.floor(until) + 1, latest) - BigInt(1) : latest
+                // --until alone ends the --last window there rather than scanning from genesis
+                fromBlock = since !== undefined ? await firstBlockAtOrAfter(client, Math.ceil(since), latest) : lastBlocks(toBlock)
+                if (fromBlock > toBlock) throw new ValidationError("No blocks were produced in that time window")
+            } else {
+                toBlock = options.to ? parseBlockNumber(options.to, latest) : latest
+                fromBlock = options.from ? parseBlockNumber(options.from, latest) : lastBlocks(toBlock)
+                if (toBlock > latest) throw new ValidationError(`--to ${toBlock} is beyond the latest block ${latest}`)
+                if (fromBlock > toBlock) throw new ValidationError(`--from ${fromBlock} is after --to ${toBlock}`)
+            }
+
+            // The block before the range too, for the interval of the first one
+            const first = fromBlock > BigInt(0) ? fromBlock - BigInt(1) : fromBlock
+            const timestamps = new Map<bigint, bigint>()
+            const blocks: BlockStats[] = []
+            let next = first
+            const worker = async () => {
+                while (next <= toBlock) {
+                    const number = next++
+                    const block = await client.getBlock({ blockNumber: number })
+                    timestamps.set(number, block.timestamp)
+                    if (number < fromBlock) continue
+                    blocks.push({
+                        number: number.toString(),
+                        timestamp: block.timestamp.toString(),
+                        transactions: block.transactions.length,
+                        gasUsed: block.gasUsed.toString(),
+                        gasLimit: block.gasLimit.toString(),
+                        utilization: block.gasLimit > BigInt(0) ? round2(Number(block.gasUsed * BigInt(10000) / block.gasLimit) / 100) : 0,
+                    })
+                }
+            }
+            await Promise.all(Array(concurrency).fill(0).map(() => worker()))
+            blocks.sort((a, b) => (BigInt(a.number) < BigInt(b.number) ? -1 : 1))
+            blocks.forEach((block) => {
+                const previous = timestamps.get(BigInt(block.number) - BigInt(1))
+                if (previous !== undefined) block.interval = Number(BigInt(block.timestamp) - previous)
+            })
+
+            const { format, quiet } = getOutputOptions()
+            if (options.perBlock) {
+                formatList(blocks.map((block) => ({
+                    number: block.number,
+                    timestamp: new Date(Number(block.timestamp) * 1000).toISOString(),
+                    interval: block.interval ?? "",
+                    transactions: block.transactions,
+                    gasUsed: block.gasUsed,
+                    gasLimit: block.gasLimit,
+                    utilization: block.utilization,
+                })), ["Block", "Time", "Interval (s)", "Transactions", "Gas used", "Gas limit", "Gas used (%)"], "number")
+                if (format !== "table" || quiet) return
+            }
+
+            // TPS over the blocks whose production time is known, so a range starting at block 0 isn't skewed
+            const timed = blocks.filter((block) => block.interval !== undefined)
+            const seconds = timed.reduce((total, block) => total + (block.interval as number), 0)
+            const timedTransactions = timed.reduce((total, block) => total + block.transactions, 0)
+            const blockTime = describeValues(timed.map((block) => block.interval as number))
+            const perBlock = describeValues(blocks.map((block) => block.transactions))
+            const utilization = describeValues(blocks.map((block) => block.utilization))
+            const emptyBlocks = blocks.filter((block) => block.transactions === 0).length
+            formatOutput({
+                blocks: `${fromBlock}-${toBlock}`,
+                blockCount: blocks.length,
+                start: new Date(Number(blocks[0].timestamp) * 1000).toISOString(),
+                end: new Date(Number(blocks[blocks.length - 1].timestamp) * 1000).toISOString(),
+                transactions: blocks.reduce((total, block) => total + block.transactions, 0),
+                tps: seconds > 0 ? round2(timedTransactions / seconds) : 0,
+                ...(report ? { clientTps: report.summary.achievedTps, clientIncluded: report.summary.transactionsIncluded } : {}),
+                blockTimeMean: blockTime.mean,
+                blockTimeP50: blockTime.p50,
+                blockTimeP90: blockTime.p90,
+                blockTimeMax: blockTime.max,
+                txPerBlockMean: perBlock.mean,
+                txPerBlockP50: perBlock.p50,
+                txPerBlockP90: perBlock.p90,
+                txPerBlockMax: perBlock.max,
+                gasUsed: blocks.reduce((total, block) => total + BigInt(block.gasUsed), BigInt(0)),
+                gasUsedPercentMean: utilization.mean,
+                gasUsedPercentMax: utilization.max,
+                emptyBlocks,
+                emptyBlockPercent: round2((emptyBlocks / blocks.length) * 100),
+            }, "tps")
         } catch (error) {
             handleError(error)
         }
     })
 
-program.parse(process.argv)
+// Only when run as the CLI, so the tests can import the helpers below
+if (require.main === module) program.parse(process.argv)
+
+export { compareReports, configSource, LatencyHistogram, mergeConfigLayers, parseAbiArgument, parseCsv, plannedOperations, readBatchFile, readHistoryJournal, readJournal, resolveFees }
+export type { ConfigLayer, PublicClient, TestReport }
 
 class NonceManager {
     private nonces: { [address: string]: number } = {};
     private locks: { [address: string]: Promise<void> } = {};
 
-    async initialize(client: ReturnType<typeof createPublicClient>, accounts: ReturnType<typeof privateKeyToAccount>[]) {
+    async initialize(
+        client: ReturnType<typeof createPublicClient>,
+        accounts: ReturnType<typeof privateKeyToAccount>[],
+        blockTag: "latest" | "pending" = "latest"
+    ) {
         await Promise.all(accounts.map(async (account) => {
             this.nonces[account.address] = await client.getTransactionCount({
                 address: account.address,
+                blockTag,
             });
             this.locks[account.address] = Promise.resolve();
         }));
     }
 
+    // Never hand out a nonce below this one, e.g. for transactions the node's pending count misses
+    skipTo(address: string, nonce: number) {
+        this.nonces[address] = Math.max(this.nonces[address], nonce);
+    }
+
     async getNextNonce(address: string): Promise<number> {
         // Wait for any pending operations on this address
         await this.locks[address];
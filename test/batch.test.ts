@@ -0,0 +1,70 @@
+import { after, test } from "node:test"
+import * as assert from "node:assert/strict"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import type { Address } from "viem"
+import { parseCsv, readBatchFile, readJournal } from "../src/index"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shardeum-cli-batch-"))
+after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+const writeFile = (name: string, content: string): string => {
+    const file = path.join(dir, name)
+    fs.writeFileSync(file, content)
+    return file
+}
+
+const ALICE: Address = "0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1"
+const BOB: Address = "0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0"
+
+test("parseCsv handles quoted commas, newlines, doubled quotes and CRLF", () => {
+    assert.deepEqual(parseCsv("a,b\r\n\"1,2\",\"say \"\"hi\"\"\"\r\n\n\"multi\nline\",\n"), [
+        ["a", "b"],
+        ["1,2", "say \"hi\""],
+        ["multi\nline", ""],
+    ])
+    assert.deepEqual(parseCsv("to\nx"), [["to"], ["x"]])
+    assert.throws(() => parseCsv("to\n\"open"), /Unterminated quoted field/)
+})
+
+test("readBatchFile reads a CSV with optional columns", () => {
+    const file = writeFile("rows.csv", `to,value,data,gas\n${ALICE.toLowerCase()},1.5,,\n${BOB},,0xabcd,21000\n`)
+    assert.deepEqual(readBatchFile(file), [
+        { to: ALICE, value: "1.5" },
+        { to: BOB, data: "0xabcd", gas: "21000" },
+    ])
+})
+
+test("readBatchFile rejects rows that don't match the header", () => {
+    const file = writeFile("short.csv", `to,value\n${ALICE},1\n${BOB}\n`)
+    assert.throws(() => readBatchFile(file), /short\.csv row 2: 1 field\(s\) where the header has 2/)
+    assert.throws(() => readBatchFile(writeFile("nohead.csv", `${ALICE},1\n`)), /needs a CSV header with a "to" column/)
+})
+
+test("readBatchFile validates each row of a JSON array", () => {
+    assert.deepEqual(readBatchFile(writeFile("rows.json", JSON.stringify([{ to: ALICE, value: 2 }]))), [{ to: ALICE, value: "2" }])
+    assert.throws(() => readBatchFile(writeFile("object.json", "{}")), /must contain a JSON array/)
+    assert.throws(() => readBatchFile(writeFile("value.json", JSON.stringify([{ to: ALICE, value: "1e18" }]))),
+        /value\.json row 1: invalid ether value 1e18/)
+    assert.throws(() => readBatchFile(writeFile("data.json", JSON.stringify([{ to: ALICE, data: "0xabc" }]))),
+        /data\.json row 1: invalid hex data 0xabc/)
+    assert.throws(() => readBatchFile(writeFile("to.json", JSON.stringify([{ value: "1" }]))), /row 1: invalid "to" address/)
+})
+
+test("readJournal keeps the latest entry per row and skips a torn last line", () => {
+    const rows = [{ to: ALICE, value: "1" }, { to: BOB, value: "2" }]
+    const entry = (row: number, status: string, hash: string) =>
+        JSON.stringify({ row, ...rows[row], status, nonce: row, hash, at: "2026-01-01T00:00:00.000Z" })
+    const file = writeFile("batch.journal", [entry(0, "signed", "0x01"), entry(1, "signed", "0x02"), entry(0, "confirmed", "0x01"), "{\"row\":1,"].join("\n"))
+    const journal = readJournal(file, rows)
+    assert.deepEqual([...journal.keys()], [0, 1])
+    assert.equal(journal.get(0)?.status, "confirmed")
+    assert.equal(journal.get(1)?.status, "signed")
+    assert.equal(readJournal(path.join(dir, "missing.journal"), rows).size, 0)
+})
+
+test("readJournal rejects a journal written for another input", () => {
+    const file = writeFile("other.journal", JSON.stringify({ row: 0, to: BOB, value: "1", status: "signed", at: "" }) + "\n")
+    assert.throws(() => readJournal(file, [{ to: ALICE, value: "1" }]), /does not match the input at row 1; use another --journal/)
+})
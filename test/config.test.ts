@@ -0,0 +1,55 @@
+import { test } from "node:test"
+import * as assert from "node:assert/strict"
+import { configSource, mergeConfigLayers, type ConfigLayer } from "../src/index"
+
+const layers: ConfigLayer[] = [
+    { source: "default", config: { rpcUrl: "https://atomium.shardeum.org", privateKey: "" } },
+    {
+        source: "user /home/me/.shardeum-cli/config",
+        config: {
+            activeProfile: "local",
+            profiles: {
+                local: { rpcUrl: "http://localhost:8080", chainId: 8082 },
+                testnet: { rpcUrl: "https://testnet.example", explorerUrl: "https://explorer.example" },
+            },
+        },
+    },
+    {
+        source: "project /work/app/.shardeum-cli.json",
+        config: { activeProfile: "testnet", profiles: { testnet: { rpcUrl: "https://project.example" } } },
+    },
+    { source: "env SHARDEUM_RPC_URL", config: { rpcUrl: "http://127.0.0.1:8545" } },
+]
+
+test("mergeConfigLayers lets later layers win key by key", () => {
+    const config = mergeConfigLayers(layers)
+    assert.equal(config.rpcUrl, "http://127.0.0.1:8545")
+    assert.equal(config.privateKey, "")
+    assert.equal(config.activeProfile, "testnet")
+})
+
+test("mergeConfigLayers replaces a profile as a whole and keeps the others", () => {
+    const { profiles } = mergeConfigLayers(layers)
+    assert.deepEqual(profiles, {
+        local: { rpcUrl: "http://localhost:8080", chainId: 8082 },
+        testnet: { rpcUrl: "https://project.example" },
+    })
+})
+
+test("mergeConfigLayers falls back to the defaults and leaves profiles out when no layer has any", () => {
+    const config = mergeConfigLayers([{ source: "user", config: { defaultWallet: "main" } }])
+    assert.deepEqual(config, { rpcUrl: "https://atomium.shardeum.org", privateKey: "", defaultWallet: "main" })
+})
+
+test("configSource names the layer a value comes from", () => {
+    assert.equal(configSource(layers, "rpcUrl"), "env SHARDEUM_RPC_URL")
+    assert.equal(configSource(layers, "privateKey"), "default")
+    assert.equal(configSource(layers, "activeProfile"), "project /work/app/.shardeum-cli.json")
+    assert.equal(configSource(layers, "defaultWallet"), "")
+})
+
+test("configSource attributes a profile and its fields to the layer that defines the profile", () => {
+    assert.equal(configSource(layers, "profiles.local.chainId"), "user /home/me/.shardeum-cli/config")
+    assert.equal(configSource(layers, "profiles.testnet"), "project /work/app/.shardeum-cli.json")
+    assert.throws(() => configSource(layers, "profiles.local.colour"), /Unknown config key "profiles.local.colour"/)
+})
@@ -0,0 +1,38 @@
+import { test } from "node:test"
+import * as assert from "node:assert/strict"
+import { parseAbiArgument } from "../src/index"
+
+test("parseAbiArgument converts integers, bools and addresses", () => {
+    assert.equal(parseAbiArgument({ name: "amount", type: "uint256" }, "1000"), BigInt(1000))
+    assert.equal(parseAbiArgument({ type: "int8" }, "-5"), BigInt(-5))
+    assert.equal(parseAbiArgument({ type: "bool" }, "false"), false)
+    const address = "0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1"
+    assert.equal(parseAbiArgument({ type: "address" }, address), address)
+})
+
+test("parseAbiArgument names the argument in errors", () => {
+    assert.throws(() => parseAbiArgument({ name: "amount", type: "uint256" }, "1.5"), /Invalid value "1.5" for amount \(uint256\)/)
+    assert.throws(() => parseAbiArgument({ name: "amount", type: "uint256" }, " "), /Empty value for amount \(uint256\)/)
+    assert.throws(() => parseAbiArgument({ name: "to", type: "address" }, "0x1234"), /Invalid address "0x1234" for to \(address\)/)
+    assert.throws(() => parseAbiArgument({ type: "bool" }, "yes"), /Invalid value "yes" for bool/)
+    assert.throws(() => parseAbiArgument({ type: "bytes32" }, "abc"), /expected 0x-prefixed hex/)
+    assert.throws(() => parseAbiArgument({ name: "amount", type: "uint256" }, undefined), /Missing value for amount/)
+})
+
+test("parseAbiArgument parses arrays and nested tuples from JSON", () => {
+    assert.deepEqual(parseAbiArgument({ type: "uint256[]" }, "[1, \"2\"]"), [BigInt(1), BigInt(2)])
+    assert.deepEqual(parseAbiArgument({ type: "bool[2][]" }, "[[true, false]]"), [[true, false]])
+    const order = {
+        name: "order",
+        type: "tuple",
+        components: [
+            { name: "id", type: "uint64" },
+            { name: "tags", type: "string[]" },
+        ],
+    }
+    assert.deepEqual(parseAbiArgument(order, "[7, [\"a\", \"b\"]]"), [BigInt(7), ["a", "b"]])
+    assert.deepEqual(parseAbiArgument(order, "{\"id\": 7, \"tags\": []}"), { id: BigInt(7), tags: [] })
+    assert.throws(() => parseAbiArgument(order, "[7]"), /Expected 2 element\(s\) for order \(tuple\), got 1/)
+    assert.throws(() => parseAbiArgument({ type: "uint256[]" }, "{}"), /Expected a JSON array for uint256\[\]/)
+    assert.throws(() => parseAbiArgument({ type: "uint256[]" }, "[1,"), /Invalid JSON for uint256\[\] argument/)
+})
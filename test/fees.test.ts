@@ -0,0 +1,65 @@
+import { test } from "node:test"
+import * as assert from "node:assert/strict"
+import { parseGwei } from "viem"
+import { resolveFees, type PublicClient } from "../src/index"
+
+// Median rewards of 1, 2 and 3 gwei at the slow, normal and fast percentiles, and a next base fee of 10 gwei
+const fakeClient = ({ baseFee = parseGwei("10"), rewards = [[1, 2, 3], [1, 2, 3], [1, 4, 5]], gasUsedRatio = 0.5 }: {
+    baseFee?: bigint | null
+    rewards?: number[][]
+    gasUsedRatio?: number
+} = {}) => ({
+    getBlock: async () => ({ baseFeePerGas: baseFee }),
+    getGasPrice: async () => parseGwei("3"),
+    getFeeHistory: async () => ({
+        oldestBlock: BigInt(1),
+        baseFeePerGas: [...rewards.map(() => parseGwei("9")), parseGwei("10")],
+        gasUsedRatio: rewards.map(() => gasUsedRatio),
+        reward: rewards.map((reward) => reward.map((gwei) => parseGwei(String(gwei)))),
+    }),
+    estimateMaxPriorityFeePerGas: async () => parseGwei("1.5"),
+}) as unknown as PublicClient
+
+// Fails the test if resolveFees asks the node for anything
+const offlineClient = new Proxy({}, { get: () => () => assert.fail("unexpected RPC call") }) as PublicClient
+
+test("resolveFees leaves fees to the client without fee options", async () => {
+    assert.deepEqual(await resolveFees(offlineClient, {}), {})
+})
+
+test("resolveFees sends --gasPrice as a legacy fee and rejects mixing it with EIP-1559 options", async () => {
+    assert.deepEqual(await resolveFees(offlineClient, { gasPrice: "2.5" }), { gasPrice: parseGwei("2.5") })
+    await assert.rejects(resolveFees(offlineClient, { gasPrice: "2", maxFee: "30" }), /not both/)
+    await assert.rejects(resolveFees(offlineClient, { gasPrice: "2gwei" }), /Invalid --gasPrice: 2gwei/)
+    await assert.rejects(resolveFees(offlineClient, { maxFee: "1", priorityFee: "2" }), /can't be higher than --max-fee/)
+})
+
+test("resolveFees prices each strategy from the median reward over twice the next base fee", async () => {
+    const client = fakeClient()
+    assert.deepEqual(await resolveFees(client, { feeStrategy: "slow" }),
+        { maxFeePerGas: parseGwei("21"), maxPriorityFeePerGas: parseGwei("1") })
+    assert.deepEqual(await resolveFees(client, { feeStrategy: "fast" }),
+        { maxFeePerGas: parseGwei("23"), maxPriorityFeePerGas: parseGwei("3") })
+})
+
+test("resolveFees fills in whichever EIP-1559 value is missing", async () => {
+    const client = fakeClient()
+    assert.deepEqual(await resolveFees(client, { priorityFee: "5" }),
+        { maxFeePerGas: parseGwei("25"), maxPriorityFeePerGas: parseGwei("5") })
+    assert.deepEqual(await resolveFees(client, { maxFee: "15" }),
+        { maxFeePerGas: parseGwei("15"), maxPriorityFeePerGas: parseGwei("2") })
+    // The suggested tip never exceeds the cap
+    assert.deepEqual(await resolveFees(client, { maxFee: "1", feeStrategy: "fast" }),
+        { maxFeePerGas: parseGwei("1"), maxPriorityFeePerGas: parseGwei("1") })
+})
+
+test("resolveFees falls back to the node's estimate when recent blocks were empty", async () => {
+    assert.deepEqual(await resolveFees(fakeClient({ gasUsedRatio: 0 }), { feeStrategy: "normal" }),
+        { maxFeePerGas: parseGwei("21.5"), maxPriorityFeePerGas: parseGwei("1.5") })
+})
+
+test("resolveFees sends a legacy transaction to nodes without a base fee", async () => {
+    const client = fakeClient({ baseFee: null })
+    assert.deepEqual(await resolveFees(client, { feeStrategy: "normal" }), { gasPrice: parseGwei("3") })
+    await assert.rejects(resolveFees(client, { maxFee: "2" }), /gas price \(3 gwei\) is above --max-fee 2/)
+})
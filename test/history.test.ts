@@ -0,0 +1,61 @@
+import { after, test } from "node:test"
+import * as assert from "node:assert/strict"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import type { Address } from "viem"
+import { readHistoryJournal } from "../src/index"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shardeum-cli-history-"))
+after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+const ADDRESS: Address = "0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1"
+
+const tx = (hash: string, blockNumber: string) => ({
+    type: "tx", blockNumber, timestamp: "2026-01-01T00:00:00.000Z", direction: "out", hash,
+    from: ADDRESS, to: "0x0000000000000000000000000000000000000001", value: "1", fee: "0.000021", status: "success", method: "",
+})
+
+const writeJournal = (name: string, lines: unknown[], tail = ""): string => {
+    const file = path.join(dir, name)
+    fs.writeFileSync(file, lines.map((line) => JSON.stringify(line) + "\n").join("") + tail)
+    return file
+}
+
+test("readHistoryJournal returns an empty scan for a new journal", () => {
+    assert.deepEqual(readHistoryJournal(path.join(dir, "new.jsonl"), ADDRESS, 1337), { header: undefined, processed: undefined, entries: [] })
+})
+
+test("readHistoryJournal resumes after the last progress record", () => {
+    const file = writeJournal("scan.jsonl", [
+        { type: "scan", address: ADDRESS, chainId: 1337, fromBlock: "100" },
+        tx("0x01", "101"),
+        { type: "progress", block: "104" },
+        tx("0x02", "107"),
+        { type: "progress", block: "109" },
+    ])
+    const { header, processed, entries } = readHistoryJournal(file, ADDRESS, 1337)
+    assert.deepEqual(header, { fromBlock: BigInt(100) })
+    assert.equal(processed, BigInt(109))
+    assert.deepEqual(entries.map((entry) => entry.hash), ["0x01", "0x02"])
+    assert.ok(entries.every((entry) => !("type" in entry)))
+})
+
+test("readHistoryJournal counts a window recorded again after a torn append once", () => {
+    const file = writeJournal("torn.jsonl", [
+        { type: "scan", address: ADDRESS, chainId: 1337, fromBlock: "0" },
+        { type: "progress", block: "4" },
+        tx("0x03", "6"),
+        tx("0x03", "6"),
+        { type: "progress", block: "9" },
+    ], "{\"type\":\"tx\",\"blockN")
+    const { processed, entries } = readHistoryJournal(file, ADDRESS, 1337)
+    assert.equal(processed, BigInt(9))
+    assert.deepEqual(entries.map((entry) => entry.hash), ["0x03"])
+})
+
+test("readHistoryJournal rejects a journal of another address or chain", () => {
+    const file = writeJournal("other.jsonl", [{ type: "scan", address: ADDRESS, chainId: 1, fromBlock: "0" }])
+    assert.throws(() => readHistoryJournal(file, ADDRESS, 1337), /belongs to a scan of .* on chain 1; use another --journal/)
+    assert.throws(() => readHistoryJournal(file, "0x0000000000000000000000000000000000000001", 1), /use another --journal/)
+})
@@ -0,0 +1,110 @@
+import { test } from "node:test"
+import * as assert from "node:assert/strict"
+import { compareReports, LatencyHistogram, plannedOperations, type TestReport } from "../src/index"
+
+// Buckets grow by 2%, so a percentile can be that far above the exact value
+const assertWithin2Percent = (actual: number, expected: number) =>
+    assert.ok(actual >= expected && actual <= expected * 1.02, `${actual} is not within 2% above ${expected}`)
+
+test("LatencyHistogram percentiles stay within a bucket of the exact value", () => {
+    const histogram = new LatencyHistogram()
+    for (let ms = 1; ms <= 1000; ms++) histogram.record(ms)
+    assertWithin2Percent(histogram.percentile(50), 500)
+    assertWithin2Percent(histogram.percentile(90), 900)
+    assertWithin2Percent(histogram.percentile(99), 990)
+    assert.equal(histogram.percentile(100), 1000)
+    assert.equal(histogram.count, 1000)
+})
+
+test("LatencyHistogram never reports more than the largest sample", () => {
+    const histogram = new LatencyHistogram()
+    histogram.record(0.4)
+    histogram.record(37)
+    assert.equal(histogram.percentile(50), 1)
+    assert.equal(histogram.percentile(99), 37)
+    assert.equal(histogram.distribution().maxMs, 37)
+})
+
+test("LatencyHistogram distribution summarises an empty run as zeros", () => {
+    const distribution = new LatencyHistogram().distribution()
+    assert.deepEqual(distribution, { count: 0, meanMs: 0, p50Ms: 0, p90Ms: 0, p99Ms: 0, maxMs: 0, buckets: [] })
+})
+
+test("LatencyHistogram distribution lists buckets in ascending order", () => {
+    const histogram = new LatencyHistogram()
+    for (const ms of [200, 5, 200, 50]) histogram.record(ms)
+    const { buckets, meanMs } = histogram.distribution()
+    assert.equal(meanMs, 113.75)
+    assert.deepEqual(buckets.map(({ count }) => count), [1, 1, 2])
+    assert.ok(buckets.every((bucket, i) => i === 0 || bucket.upToMs > buckets[i - 1].upToMs))
+})
+
+test("plannedOperations counts a constant phase linearly", () => {
+    const phases = [{ name: "steady", duration: 10, tps: 5 }]
+    assert.equal(plannedOperations(phases, 0), 0)
+    assert.equal(plannedOperations(phases, 4), 20)
+    assert.equal(plannedOperations(phases, 10), 50)
+    // Nothing is planned past the end of the schedule
+    assert.equal(plannedOperations(phases, 60), 50)
+})
+
+test("plannedOperations integrates a ramp and carries totals across phases", () => {
+    const phases = [
+        { name: "ramp", duration: 10, tps: { from: 0, to: 20 } },
+        { name: "hold", duration: 5, tps: 20 },
+    ]
+    // Rate 2t, so 5 seconds in: t² = 25
+    assert.equal(plannedOperations(phases, 5), 25)
+    assert.equal(plannedOperations(phases, 10), 100)
+    assert.equal(plannedOperations(phases, 12), 140)
+    assert.equal(plannedOperations(phases, 15), 200)
+})
+
+const latency = (p50Ms: number, p99Ms: number) => ({ count: 100, meanMs: p50Ms, p50Ms, p90Ms: p99Ms, p99Ms, maxMs: p99Ms, buckets: [] })
+
+// Only the fields compareReports reads
+const report = (achievedTps: number, methods: Record<string, { success: number; error: number; p50Ms: number; p99Ms: number }>) => ({
+    summary: { achievedTps },
+    inclusion: { included: 100, notIncluded: 0, latency: latency(800, 1500) },
+    methods: Object.fromEntries(Object.entries(methods).map(([name, { success, error, p50Ms, p99Ms }]) =>
+        [name, { success, error, latency: latency(p50Ms, p99Ms) }])),
+}) as unknown as TestReport
+
+const thresholds = { tpsDrop: 10, latencyIncrease: 20, minLatencyDelta: 5, errorRateIncrease: 1 }
+
+test("compareReports passes a run within the thresholds", () => {
+    const baseline = report(100, { getBalance: { success: 1000, error: 0, p50Ms: 20, p99Ms: 80 } })
+    const current = report(95, { getBalance: { success: 995, error: 5, p50Ms: 23, p99Ms: 90 } })
+    const rows = compareReports(baseline, current, thresholds)
+    assert.deepEqual(rows.filter((row) => row.status !== "ok"), [])
+    assert.deepEqual(rows.find((row) => row.metric === "achievedTps"),
+        { metric: "achievedTps", baseline: 100, current: 95, change: "-5.0%", status: "ok" })
+    assert.equal(rows.find((row) => row.metric === "getBalance error rate (%)")?.change, "+0.50 pts")
+})
+
+test("compareReports flags throughput, error rate and latency regressions", () => {
+    const baseline = report(100, { getBalance: { success: 1000, error: 0, p50Ms: 20, p99Ms: 80 } })
+    const current = report(80, { getBalance: { success: 980, error: 20, p50Ms: 30, p99Ms: 82 } })
+    const regressions = compareReports(baseline, current, thresholds)
+        .filter((row) => row.status === "regression")
+        .map((row) => row.metric)
+    assert.deepEqual(regressions, ["achievedTps", "getBalance error rate (%)", "getBalance p50 (ms)"])
+})
+
+test("compareReports ignores latency increases below the minimum delta", () => {
+    const baseline = report(100, { blockNumber: { success: 10, error: 0, p50Ms: 1, p99Ms: 2 } })
+    const current = report(100, { blockNumber: { success: 10, error: 0, p50Ms: 3, p99Ms: 6 } })
+    const rows = compareReports(baseline, current, thresholds)
+    assert.equal(rows.find((row) => row.metric === "blockNumber p99 (ms)")?.change, "+200.0%")
+    assert.ok(rows.every((row) => row.status === "ok"))
+})
+
+test("compareReports reports operations only one run has", () => {
+    const baseline = report(100, { getBalance: { success: 10, error: 0, p50Ms: 20, p99Ms: 80 } })
+    const current = report(100, { transfer: { success: 10, error: 0, p50Ms: 20, p99Ms: 80 } })
+    const rows = compareReports(baseline, current, thresholds)
+    assert.deepEqual(rows.filter((row) => row.status === "added" || row.status === "removed"), [
+        { metric: "getBalance", baseline: "yes", current: "-", change: "", status: "removed" },
+        { metric: "transfer", baseline: "-", current: "yes", change: "", status: "added" },
+    ])
+})